@@ -1,11 +1,15 @@
 // KC85 assembler mnemonik: http://www.mpm-kc85.de/dokupack/M027_Development.pdf
 
-function fatal_if(c: boolean, msg: string) {
-    if (c) { throw msg; }
+/** thrown on internal errors (bugs in the assembler, not in the source code) */
+export class InternalError extends Error {
+    constructor(msg: string) {
+        super(msg);
+        this.name = "InternalError";
+    }
 }
 
-function fatal(msg: string) {
-    throw msg;
+function fatal(msg: string): never {
+    throw new InternalError(msg);
 }
 
 function is_8bit(val: number) {
@@ -23,13 +27,27 @@ export enum TokenKind {
     Name,                   // any string
     Number,                 // a number ($ prefix for hex, % prefix for binary)
     String,                 // a string literal (everything between "")
+    Char,                   // a character literal (e.g. 'A')
     Comma,                  // ','
     Colon,                  // ':'
     Plus,                   // '+'
     Minus,                  // '-'
+    Star,                   // '*'
+    Slash,                  // '/'
+    Percent,                // '%' (modulo, if not followed by a binary number)
+    Ampersand,              // '&'
+    Pipe,                   // '|'
+    Caret,                  // '^'
+    Tilde,                  // '~'
+    ShiftLeft,              // '<<'
+    ShiftRight,             // '>>'
+    Less,                   // '<' (low-byte operator)
+    Greater,                // '>' (high-byte operator)
+    Equals,                 // '='
     Pound,                  // '#'
     LeftBracket,            // '('
     RightBracket,           // ')'
+    EOL,                    // end-of-line
     EOF,                    // end-of-stream
 }
 
@@ -41,13 +59,27 @@ export function TokenKindToString(kind: TokenKind): string {
         case TokenKind.Name:            return "Name";
         case TokenKind.Number:          return "Number";
         case TokenKind.String:          return "String";
+        case TokenKind.Char:            return "Char";
         case TokenKind.Comma:           return "Comma";
         case TokenKind.Colon:           return "Colon";
         case TokenKind.Plus:            return "Plus";
         case TokenKind.Minus:           return "Minus";
+        case TokenKind.Star:            return "Star";
+        case TokenKind.Slash:           return "Slash";
+        case TokenKind.Percent:         return "Percent";
+        case TokenKind.Ampersand:       return "Ampersand";
+        case TokenKind.Pipe:            return "Pipe";
+        case TokenKind.Caret:           return "Caret";
+        case TokenKind.Tilde:           return "Tilde";
+        case TokenKind.ShiftLeft:       return "ShiftLeft";
+        case TokenKind.ShiftRight:      return "ShiftRight";
+        case TokenKind.Less:            return "Less";
+        case TokenKind.Greater:         return "Greater";
+        case TokenKind.Equals:          return "Equals";
         case TokenKind.Pound:           return "Pound";
         case TokenKind.LeftBracket:     return "LeftBracket";
         case TokenKind.RightBracket:    return "RightBracket";
+        case TokenKind.EOL:             return "EOL";
         case TokenKind.EOF:             return "EOF";
     }
 }
@@ -70,13 +102,68 @@ export class Token {
         return token;
     }
 
+    /** return a new error token */
+    public static Error(code: ErrorCode, msg: string, line: number): Token {
+        const token = new Token();
+        token.kind = TokenKind.Error;
+        token.code = code;
+        token.str = msg;
+        token.line = line;
+        return token;
+    }
+
     /** return a new string token (with un-escape) */
     public static String(src: string, start: number, end: number, line: number): Token {
         const token = new Token();
         token.kind = TokenKind.String;
-        // FIXME unescape the string!
-        token.str = src.slice(start, end).toUpperCase();
+        token.str = "";
         token.line = line;
+        let pos = start;
+        while (pos < end) {
+            const c = src[pos++];
+            if (c !== "\\") {
+                token.str += c;
+                continue;
+            }
+            const esc = src[pos++];
+            switch (esc) {
+                case "n":   token.str += "\n"; break;
+                case "r":   token.str += "\r"; break;
+                case "t":   token.str += "\t"; break;
+                case "0":   token.str += "\0"; break;
+                case "\\":  token.str += "\\"; break;
+                case "\"":  token.str += "\""; break;
+                case "'":   token.str += "'"; break;
+                case "x":
+                    {
+                        const hex = src.slice(pos, pos + 2);
+                        if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+                            return Token.Error(ErrorCode.InvalidEscape,
+                                "invalid \\x escape sequence in string literal", line);
+                        }
+                        token.str += String.fromCharCode(parseInt(hex, 16));
+                        pos += 2;
+                    }
+                    break;
+                default:
+                    return Token.Error(ErrorCode.InvalidEscape,
+                        `invalid escape sequence \\${ esc } in string literal`, line);
+            }
+        }
+        return token;
+    }
+
+    /** return a new character token, the character code is in num */
+    public static Char(src: string, start: number, end: number, line: number): Token {
+        const token = Token.String(src, start, end, line);
+        if (token.kind === TokenKind.String) {
+            if (token.str.length !== 1) {
+                return Token.Error(ErrorCode.InvalidCharLiteral,
+                    "character literal must contain exactly one character", line);
+            }
+            token.kind = TokenKind.Char;
+            token.num = token.str.charCodeAt(0);
+        }
         return token;
     }
 
@@ -89,6 +176,7 @@ export class Token {
         token.num = parseInt(token.str, 10);
         if (isNaN(token.num)) {
             token.kind = TokenKind.Error;
+            token.code = ErrorCode.InvalidNumber;
             token.str = "Decimal integer parsing error";
         }
         return token;
@@ -103,6 +191,7 @@ export class Token {
         token.num = parseInt(token.str, 16);
         if (isNaN(token.num)) {
             token.kind = TokenKind.Error;
+            token.code = ErrorCode.InvalidNumber;
             token.str = "Hexadecimal integer parsing error";
         }
         return token;
@@ -117,6 +206,7 @@ export class Token {
         token.num = parseInt(token.str, 2);
         if (isNaN(token.num)) {
             token.kind = TokenKind.Error;
+            token.code = ErrorCode.InvalidNumber;
             token.str = "Binary integer parsing error";
         }
         return token;
@@ -125,7 +215,10 @@ export class Token {
     public kind: TokenKind = TokenKind.Invalid;
     public str: string = null;
     public num: number = 0;
-    public line: number = 0;
+    public line: number = 0;       // 1-based source line
+    public col: number = 0;        // 1-based source column
+    public len: number = 0;        // length of the token in source characters
+    public code: ErrorCode = null;  // only for error tokens
 
     /** return a human-readable string with the token state (for debugging) */
     public ToString(): string {
@@ -182,6 +275,9 @@ export class Tokenizer {
     private start: number;
     private end: number;
     private line: number;
+    private lineStart: number;      // source position of the current line
+    private tokenStart: number;     // source position of the current token
+    private prevKind: TokenKind;
     
     /** tokenize a string into a token array */
     public Tokenize(str: string): Token[] {
@@ -189,12 +285,24 @@ export class Tokenizer {
         this.pos = 0;
         this.start = 0;
         this.end = 0;
-        this.line = 0;
+        this.line = 1;
+        this.lineStart = 0;
+        this.tokenStart = 0;
+        this.prevKind = TokenKind.Invalid;
         const tokens = new Array<Token>();
         let token = null;
         while (token = this.next_token()) {
+            if (token.kind !== TokenKind.EOL) {
+                token.col = this.tokenStart - this.lineStart + 1;
+                token.len = this.pos - this.tokenStart;
+            }
             tokens.push(token);
+            this.prevKind = token.kind;
         }
+        // the EOF token is located after the last character, also without a trailing newline
+        const eof = Token.Tag(TokenKind.EOF, this.line);
+        eof.col = this.pos - this.lineStart + 1;
+        tokens.push(eof);
         return tokens;
     }
 
@@ -211,6 +319,16 @@ export class Tokenizer {
         this.pos++;
         this.end++;
     }
+    /** return the character after the current character */
+    private next_char(): string {
+        return this.src[this.pos + 1];
+    }
+    /** return true if the previous token ends a value (so '%' is the modulo operator) */
+    private after_value(): boolean {
+        return (this.prevKind === TokenKind.Number) ||
+               (this.prevKind === TokenKind.Name) ||
+               (this.prevKind === TokenKind.RightBracket);
+    }
     /** advance character pointer, set token start to next character */
     private advance_skip() {
         this.pos++;
@@ -220,7 +338,7 @@ export class Tokenizer {
     /** return the next token in input character stream */
     private next_token(): Token {
         while (true) {
-            this.start = this.end = this.pos;
+            this.start = this.end = this.tokenStart = this.pos;
             const c = this.cur_char();
             if (c === undefined) {
                 return null;
@@ -232,6 +350,10 @@ export class Tokenizer {
                 }
                 return Token.Hex(this.src, this.start, this.end, this.line);
             } 
+            else if ((c === "%") && (this.after_value() || !Tokenizer.isBinDigit(this.next_char()))) {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Percent, this.line);
+            }
             else if (c === "%") {
                 this.advance_skip();
                 while (Tokenizer.isBinDigit(this.cur_char())) {
@@ -245,16 +367,27 @@ export class Tokenizer {
                 }
                 return Token.Decimal(this.src, this.start, this.end, this.line);
             }
-            else if (c === '\"') {
+            else if ((c === '\"') || (c === "'")) {
+                // a string or character literal
                 this.advance_skip();
-                while (this.cur_char() && (this.cur_char() !== '\"')) {
-                    this.advance_take();
+                while (!Tokenizer.isLineEnd(this.cur_char()) && (this.cur_char() !== c)) {
                     // skip escape sequences
                     if (this.cur_char() === "\\") {
                         this.advance_take();
+                        if (Tokenizer.isLineEnd(this.cur_char())) {
+                            break;
+                        }
                     }
+                    this.advance_take();
+                }
+                if (this.cur_char() !== c) {
+                    const what = (c === "'") ? "character" : "string";
+                    return Token.Error(ErrorCode.UnterminatedLiteral, `unterminated ${ what } literal`, this.line);
                 }
                 this.advance_ignore();
+                if (c === "'") {
+                    return Token.Char(this.src, this.start, this.end, this.line);
+                }
                 return Token.String(this.src, this.start, this.end, this.line);
             }
             else if (c === ",") {
@@ -269,6 +402,52 @@ export class Tokenizer {
                 this.advance_ignore();
                 return Token.Tag(TokenKind.Minus, this.line);
             }
+            else if (c === "*") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Star, this.line);
+            }
+            else if (c === "/") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Slash, this.line);
+            }
+            else if (c === "&") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Ampersand, this.line);
+            }
+            else if (c === "|") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Pipe, this.line);
+            }
+            else if (c === "^") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Caret, this.line);
+            }
+            else if (c === "~") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Tilde, this.line);
+            }
+            else if ((c === "<") && (this.next_char() === "<")) {
+                this.advance_ignore();
+                this.advance_ignore();
+                return Token.Tag(TokenKind.ShiftLeft, this.line);
+            }
+            else if ((c === ">") && (this.next_char() === ">")) {
+                this.advance_ignore();
+                this.advance_ignore();
+                return Token.Tag(TokenKind.ShiftRight, this.line);
+            }
+            else if (c === "<") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Less, this.line);
+            }
+            else if (c === ">") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Greater, this.line);
+            }
+            else if (c === "=") {
+                this.advance_ignore();
+                return Token.Tag(TokenKind.Equals, this.line);
+            }
             else if (c === "#") {
                 this.advance_ignore();
                 return Token.Tag(TokenKind.Pound, this.line);
@@ -289,11 +468,21 @@ export class Tokenizer {
                 while (Tokenizer.isAlnum(this.cur_char())) {
                     this.advance_take();
                 }
+                // the Z80 shadow register AF'
+                if ((this.cur_char() === "'") && (this.src.slice(this.start, this.end).toUpperCase() === "AF")) {
+                    this.advance_take();
+                }
                 return Token.Name(TokenKind.Name, this.src, this.start, this.end, this.line);
             }
             else if (c === "\n") {
+                // the line end token is located at the end of its line
+                const token = Token.Tag(TokenKind.EOL, this.line);
+                token.col = this.pos - this.lineStart + 1;
+                token.len = 1;
                 this.advance_ignore();
                 this.line++;
+                this.lineStart = this.pos;
+                return token;
             }
             else if (Tokenizer.isWhiteSpace(c)) {
                 this.advance_ignore();
@@ -308,12 +497,41 @@ export class Tokenizer {
             else {
                 // invalid character encountered
                 this.advance_ignore();
-                return Token.Tag(TokenKind.Unknown, this.line);
+                return Token.Error(ErrorCode.UnexpectedCharacter, `unexpected character: ${ c }`, this.line);
             }
         }
     }
 }
 
+/** supported CPU types, instruction and register names depend on the active CPU */
+export enum CPUType {
+    None,
+    Z80,
+    M6502,
+    M65C02,     // WDC/Rockwell 65C02 extensions
+    M6510,      // NMOS 6502/6510 with the stable illegal opcodes
+    I8080,      // Intel 8080 with Intel mnemonics
+    SM83,       // Game Boy CPU, Z80 syntax
+}
+
+/** the keywords which select a CPU */
+const CPUKeywords: {[key: string]: CPUType } = {
+    Z80: CPUType.Z80, M6502: CPUType.M6502, M65C02: CPUType.M65C02, M6510: CPUType.M6510,
+    I8080: CPUType.I8080, SM83: CPUType.SM83,
+};
+
+/** return the CPU name for error messages, no selected CPU means Z80 */
+function cpu_name(cpu: CPUType): string {
+    switch (cpu) {
+        case CPUType.M6502:     return "6502";
+        case CPUType.M65C02:    return "65C02";
+        case CPUType.M6510:     return "6510";
+        case CPUType.I8080:     return "8080";
+        case CPUType.SM83:      return "SM83";
+        default:                return "Z80";
+    }
+}
+
 /** tokens parsed into abstract syntax items by the parser */
 enum SyntaxItemKind {
     Invalid,
@@ -325,6 +543,7 @@ enum SyntaxItemKind {
     Keyword,    // org, z80, m6502, db, etc...
     Z80Op,      // a Z80 instruction
     Z80R8,      // a regular Z80 8-bit register (B,C,D,E,H,L,A)
+    Z80R8X,     // an undocumented Z80 index register half (IXH,IXL,IYH,IYL)
     Z80RI,      // the special I register
     Z80RR,      // the special R register
     Z80R16,     // a Z80 16-bit register
@@ -332,6 +551,14 @@ enum SyntaxItemKind {
     Z80IndIdx,  // Z80 indexed-indirect (IX+d) or (IY+d)
     Z80IndC,    // Z80 indirect (C)
     Z80IndImm,  // Z80 indirect-immediate 
+    Z80Cond,    // Z80 condition code (NZ,Z,NC,C,PO,PE,P,M)
+    I8080Op,    // an 8080 instruction
+    I8080Reg,   // an 8080 register or register pair (A,B,C,D,E,H,L,M,SP,PSW)
+    M6502Op,    // a 6502 instruction
+    M6502Reg,   // a 6502 register (A,X,Y)
+    M6502Imm,   // 6502 immediate #expr
+    M6502IndX,  // 6502 indexed-indirect (zp,X)
+    EOL,        // end of a source line
     EOF,        // end of syntax item stream
 }
 
@@ -346,6 +573,7 @@ function SyntaxItemKindToString(kind: SyntaxItemKind): string {
         case SyntaxItemKind.Keyword:    return "Keyword";
         case SyntaxItemKind.Z80Op:      return "Z80Op";
         case SyntaxItemKind.Z80R8:      return "Z80R8";
+        case SyntaxItemKind.Z80R8X:     return "Z80R8X";
         case SyntaxItemKind.Z80RI:      return "Z80RI";
         case SyntaxItemKind.Z80RR:      return "Z80RR";
         case SyntaxItemKind.Z80R16:     return "Z80R16";
@@ -353,23 +581,45 @@ function SyntaxItemKindToString(kind: SyntaxItemKind): string {
         case SyntaxItemKind.Z80IndIdx:  return "Z80IndIdx";
         case SyntaxItemKind.Z80IndC:    return "Z80IndC";
         case SyntaxItemKind.Z80IndImm:  return "Z80IndImm";
+        case SyntaxItemKind.Z80Cond:    return "Z80Cond";
+        case SyntaxItemKind.I8080Op:    return "I8080Op";
+        case SyntaxItemKind.I8080Reg:   return "I8080Reg";
+        case SyntaxItemKind.M6502Op:    return "M6502Op";
+        case SyntaxItemKind.M6502Reg:   return "M6502Reg";
+        case SyntaxItemKind.M6502Imm:   return "M6502Imm";
+        case SyntaxItemKind.M6502IndX:  return "M6502IndX";
+        case SyntaxItemKind.EOL:        return "EOL";
         case SyntaxItemKind.EOF:        return "EOF";
         default: return "UNKNOWN";
     }
 }
 
-const SyntaxNameMap: {[key: string]: SyntaxItemKind } = {
-    "ORG":      SyntaxItemKind.Keyword,
-    "Z80":      SyntaxItemKind.Keyword,
-    "M6502":    SyntaxItemKind.Keyword, 
-    "INCLUDE":  SyntaxItemKind.Keyword,
-    "INCBIN":   SyntaxItemKind.Keyword,
-    "DB":       SyntaxItemKind.Keyword,
-    "DW":       SyntaxItemKind.Keyword,
-    "CONST":    SyntaxItemKind.Keyword,
-    "MACRO":    SyntaxItemKind.Keyword,
-    "ENDM":     SyntaxItemKind.Keyword,
-    "END":      SyntaxItemKind.Keyword,
+/** keywords, these are reserved for all CPUs */
+const SyntaxKeywords: {[key: string]: SyntaxItemKind } = {
+    ORG:        SyntaxItemKind.Keyword,
+    Z80:        SyntaxItemKind.Keyword,
+    M6502:      SyntaxItemKind.Keyword,
+    M65C02:     SyntaxItemKind.Keyword,
+    M6510:      SyntaxItemKind.Keyword,
+    I8080:      SyntaxItemKind.Keyword,
+    SM83:       SyntaxItemKind.Keyword,
+    UNDOC:      SyntaxItemKind.Keyword,
+    INCLUDE:    SyntaxItemKind.Keyword,
+    INCBIN:     SyntaxItemKind.Keyword,
+    DB:         SyntaxItemKind.Keyword,
+    DW:         SyntaxItemKind.Keyword,
+    CONST:      SyntaxItemKind.Keyword,
+    EQU:        SyntaxItemKind.Keyword,
+    VAR:        SyntaxItemKind.Keyword,
+    MACRO:      SyntaxItemKind.Keyword,
+    ENDM:       SyntaxItemKind.Keyword,
+    END:        SyntaxItemKind.Keyword,
+    CHARSET:    SyntaxItemKind.Keyword,
+    CHARMAP:    SyntaxItemKind.Keyword,
+};
+
+/** Z80 instruction and register names */
+const Z80SyntaxNames: {[key: string]: SyntaxItemKind } = {
     "ADC":      SyntaxItemKind.Z80Op,
     "ADD":      SyntaxItemKind.Z80Op,
     "AND":      SyntaxItemKind.Z80Op,
@@ -391,12 +641,13 @@ const SyntaxNameMap: {[key: string]: SyntaxItemKind } = {
     "EXX":      SyntaxItemKind.Z80Op,
     "HALT":     SyntaxItemKind.Z80Op,
     "IM":       SyntaxItemKind.Z80Op,
+    "IN":       SyntaxItemKind.Z80Op,
     "INC":      SyntaxItemKind.Z80Op,
     "IND":      SyntaxItemKind.Z80Op,
     "INDR":     SyntaxItemKind.Z80Op,
     "INI":      SyntaxItemKind.Z80Op,
     "INIR":     SyntaxItemKind.Z80Op,
-    "JP":      SyntaxItemKind.Z80Op,
+    "JP":       SyntaxItemKind.Z80Op,
     "JR":       SyntaxItemKind.Z80Op,
     "LD":       SyntaxItemKind.Z80Op,
     "LDD":      SyntaxItemKind.Z80Op,
@@ -420,6 +671,7 @@ const SyntaxNameMap: {[key: string]: SyntaxItemKind } = {
     "RL":       SyntaxItemKind.Z80Op,
     "RLA":      SyntaxItemKind.Z80Op,
     "RLC":      SyntaxItemKind.Z80Op,
+    "RLCA":     SyntaxItemKind.Z80Op,
     "RLD":      SyntaxItemKind.Z80Op,
     "RR":       SyntaxItemKind.Z80Op,
     "RRA":      SyntaxItemKind.Z80Op,
@@ -430,7 +682,9 @@ const SyntaxNameMap: {[key: string]: SyntaxItemKind } = {
     "SBC":      SyntaxItemKind.Z80Op,
     "SCF":      SyntaxItemKind.Z80Op,
     "SET":      SyntaxItemKind.Z80Op,
+    "SL1":      SyntaxItemKind.Z80Op,
     "SLA":      SyntaxItemKind.Z80Op,
+    "SLL":      SyntaxItemKind.Z80Op,
     "SRA":      SyntaxItemKind.Z80Op,
     "SRL":      SyntaxItemKind.Z80Op,
     "SUB":      SyntaxItemKind.Z80Op,
@@ -442,6 +696,10 @@ const SyntaxNameMap: {[key: string]: SyntaxItemKind } = {
     "H":        SyntaxItemKind.Z80R8,
     "L":        SyntaxItemKind.Z80R8,
     "A":        SyntaxItemKind.Z80R8,
+    "IXH":      SyntaxItemKind.Z80R8X,
+    "IXL":      SyntaxItemKind.Z80R8X,
+    "IYH":      SyntaxItemKind.Z80R8X,
+    "IYL":      SyntaxItemKind.Z80R8X,
     "I":        SyntaxItemKind.Z80RI,
     "R":        SyntaxItemKind.Z80RR,
     "BC":       SyntaxItemKind.Z80R16,
@@ -454,6 +712,419 @@ const SyntaxNameMap: {[key: string]: SyntaxItemKind } = {
     "AF'":      SyntaxItemKind.Z80R16,
 };
 
+/** 6502 instruction and register names */
+const M6502SyntaxNames: {[key: string]: SyntaxItemKind } = {
+    ADC:        SyntaxItemKind.M6502Op,
+    AND:        SyntaxItemKind.M6502Op,
+    ASL:        SyntaxItemKind.M6502Op,
+    BCC:        SyntaxItemKind.M6502Op,
+    BCS:        SyntaxItemKind.M6502Op,
+    BEQ:        SyntaxItemKind.M6502Op,
+    BIT:        SyntaxItemKind.M6502Op,
+    BMI:        SyntaxItemKind.M6502Op,
+    BNE:        SyntaxItemKind.M6502Op,
+    BPL:        SyntaxItemKind.M6502Op,
+    BRK:        SyntaxItemKind.M6502Op,
+    BVC:        SyntaxItemKind.M6502Op,
+    BVS:        SyntaxItemKind.M6502Op,
+    CLC:        SyntaxItemKind.M6502Op,
+    CLD:        SyntaxItemKind.M6502Op,
+    CLI:        SyntaxItemKind.M6502Op,
+    CLV:        SyntaxItemKind.M6502Op,
+    CMP:        SyntaxItemKind.M6502Op,
+    CPX:        SyntaxItemKind.M6502Op,
+    CPY:        SyntaxItemKind.M6502Op,
+    DEC:        SyntaxItemKind.M6502Op,
+    DEX:        SyntaxItemKind.M6502Op,
+    DEY:        SyntaxItemKind.M6502Op,
+    EOR:        SyntaxItemKind.M6502Op,
+    INC:        SyntaxItemKind.M6502Op,
+    INX:        SyntaxItemKind.M6502Op,
+    INY:        SyntaxItemKind.M6502Op,
+    JMP:        SyntaxItemKind.M6502Op,
+    JSR:        SyntaxItemKind.M6502Op,
+    LDA:        SyntaxItemKind.M6502Op,
+    LDX:        SyntaxItemKind.M6502Op,
+    LDY:        SyntaxItemKind.M6502Op,
+    LSR:        SyntaxItemKind.M6502Op,
+    NOP:        SyntaxItemKind.M6502Op,
+    ORA:        SyntaxItemKind.M6502Op,
+    PHA:        SyntaxItemKind.M6502Op,
+    PHP:        SyntaxItemKind.M6502Op,
+    PLA:        SyntaxItemKind.M6502Op,
+    PLP:        SyntaxItemKind.M6502Op,
+    ROL:        SyntaxItemKind.M6502Op,
+    ROR:        SyntaxItemKind.M6502Op,
+    RTI:        SyntaxItemKind.M6502Op,
+    RTS:        SyntaxItemKind.M6502Op,
+    SBC:        SyntaxItemKind.M6502Op,
+    SEC:        SyntaxItemKind.M6502Op,
+    SED:        SyntaxItemKind.M6502Op,
+    SEI:        SyntaxItemKind.M6502Op,
+    STA:        SyntaxItemKind.M6502Op,
+    STX:        SyntaxItemKind.M6502Op,
+    STY:        SyntaxItemKind.M6502Op,
+    TAX:        SyntaxItemKind.M6502Op,
+    TAY:        SyntaxItemKind.M6502Op,
+    TSX:        SyntaxItemKind.M6502Op,
+    TXA:        SyntaxItemKind.M6502Op,
+    TXS:        SyntaxItemKind.M6502Op,
+    TYA:        SyntaxItemKind.M6502Op,
+    A:          SyntaxItemKind.M6502Reg,
+    X:          SyntaxItemKind.M6502Reg,
+    Y:          SyntaxItemKind.M6502Reg,
+};
+
+/** 65C02 instruction names, in addition to the 6502 names */
+const M65C02SyntaxNames: {[key: string]: SyntaxItemKind } = Object.assign({}, M6502SyntaxNames, {
+    BBR0:       SyntaxItemKind.M6502Op,
+    BBR1:       SyntaxItemKind.M6502Op,
+    BBR2:       SyntaxItemKind.M6502Op,
+    BBR3:       SyntaxItemKind.M6502Op,
+    BBR4:       SyntaxItemKind.M6502Op,
+    BBR5:       SyntaxItemKind.M6502Op,
+    BBR6:       SyntaxItemKind.M6502Op,
+    BBR7:       SyntaxItemKind.M6502Op,
+    BBS0:       SyntaxItemKind.M6502Op,
+    BBS1:       SyntaxItemKind.M6502Op,
+    BBS2:       SyntaxItemKind.M6502Op,
+    BBS3:       SyntaxItemKind.M6502Op,
+    BBS4:       SyntaxItemKind.M6502Op,
+    BBS5:       SyntaxItemKind.M6502Op,
+    BBS6:       SyntaxItemKind.M6502Op,
+    BBS7:       SyntaxItemKind.M6502Op,
+    BRA:        SyntaxItemKind.M6502Op,
+    PHX:        SyntaxItemKind.M6502Op,
+    PHY:        SyntaxItemKind.M6502Op,
+    PLX:        SyntaxItemKind.M6502Op,
+    PLY:        SyntaxItemKind.M6502Op,
+    RMB0:       SyntaxItemKind.M6502Op,
+    RMB1:       SyntaxItemKind.M6502Op,
+    RMB2:       SyntaxItemKind.M6502Op,
+    RMB3:       SyntaxItemKind.M6502Op,
+    RMB4:       SyntaxItemKind.M6502Op,
+    RMB5:       SyntaxItemKind.M6502Op,
+    RMB6:       SyntaxItemKind.M6502Op,
+    RMB7:       SyntaxItemKind.M6502Op,
+    SMB0:       SyntaxItemKind.M6502Op,
+    SMB1:       SyntaxItemKind.M6502Op,
+    SMB2:       SyntaxItemKind.M6502Op,
+    SMB3:       SyntaxItemKind.M6502Op,
+    SMB4:       SyntaxItemKind.M6502Op,
+    SMB5:       SyntaxItemKind.M6502Op,
+    SMB6:       SyntaxItemKind.M6502Op,
+    SMB7:       SyntaxItemKind.M6502Op,
+    STZ:        SyntaxItemKind.M6502Op,
+    TRB:        SyntaxItemKind.M6502Op,
+    TSB:        SyntaxItemKind.M6502Op,
+});
+
+/** 6510 illegal instruction names, in addition to the 6502 names */
+const M6510SyntaxNames: {[key: string]: SyntaxItemKind } = Object.assign({}, M6502SyntaxNames, {
+    ALR:        SyntaxItemKind.M6502Op,
+    ANC:        SyntaxItemKind.M6502Op,
+    ARR:        SyntaxItemKind.M6502Op,
+    DCP:        SyntaxItemKind.M6502Op,
+    ISC:        SyntaxItemKind.M6502Op,
+    LAX:        SyntaxItemKind.M6502Op,
+    RLA:        SyntaxItemKind.M6502Op,
+    RRA:        SyntaxItemKind.M6502Op,
+    SAX:        SyntaxItemKind.M6502Op,
+    SBX:        SyntaxItemKind.M6502Op,
+    SLO:        SyntaxItemKind.M6502Op,
+    SRE:        SyntaxItemKind.M6502Op,
+});
+
+/** return a copy of a name table without some names */
+function omit_names(names: {[key: string]: SyntaxItemKind }, omit: string[]): {[key: string]: SyntaxItemKind } {
+    const res = Object.assign({}, names);
+    for (const name of omit) {
+        delete res[name];
+    }
+    return res;
+}
+
+/** 
+ * SM83 instruction and register names, the Z80 names without index and 
+ * shadow registers, ED-prefix and I/O instructions, plus the SM83 additions
+ */
+const SM83SyntaxNames: {[key: string]: SyntaxItemKind } = Object.assign(omit_names(Z80SyntaxNames, [
+    "CPD", "CPDR", "CPI", "CPIR", "DJNZ", "EX", "EXX", "IM", "IN", "IND", "INDR", "INI", "INIR",
+    "LDD", "LDDR", "LDI", "LDIR", "NEG", "OTDR", "OTIR", "OUT", "OUTD", "OUTI", "RETN", "RLD", "RRD",
+    "SL1", "SLL", "I", "R", "IX", "IY", "IXH", "IXL", "IYH", "IYL", "AF'",
+]), {
+    LDH:        SyntaxItemKind.Z80Op,
+    STOP:       SyntaxItemKind.Z80Op,
+    SWAP:       SyntaxItemKind.Z80Op,
+});
+
+/** 8080 instruction and register names */
+const I8080SyntaxNames: {[key: string]: SyntaxItemKind } = {
+    ACI:        SyntaxItemKind.I8080Op,
+    ADC:        SyntaxItemKind.I8080Op,
+    ADD:        SyntaxItemKind.I8080Op,
+    ADI:        SyntaxItemKind.I8080Op,
+    ANA:        SyntaxItemKind.I8080Op,
+    ANI:        SyntaxItemKind.I8080Op,
+    CALL:       SyntaxItemKind.I8080Op,
+    CC:         SyntaxItemKind.I8080Op,
+    CM:         SyntaxItemKind.I8080Op,
+    CMA:        SyntaxItemKind.I8080Op,
+    CMC:        SyntaxItemKind.I8080Op,
+    CMP:        SyntaxItemKind.I8080Op,
+    CNC:        SyntaxItemKind.I8080Op,
+    CNZ:        SyntaxItemKind.I8080Op,
+    CP:         SyntaxItemKind.I8080Op,
+    CPE:        SyntaxItemKind.I8080Op,
+    CPI:        SyntaxItemKind.I8080Op,
+    CPO:        SyntaxItemKind.I8080Op,
+    CZ:         SyntaxItemKind.I8080Op,
+    DAA:        SyntaxItemKind.I8080Op,
+    DAD:        SyntaxItemKind.I8080Op,
+    DCR:        SyntaxItemKind.I8080Op,
+    DCX:        SyntaxItemKind.I8080Op,
+    DI:         SyntaxItemKind.I8080Op,
+    EI:         SyntaxItemKind.I8080Op,
+    HLT:        SyntaxItemKind.I8080Op,
+    IN:         SyntaxItemKind.I8080Op,
+    INR:        SyntaxItemKind.I8080Op,
+    INX:        SyntaxItemKind.I8080Op,
+    JC:         SyntaxItemKind.I8080Op,
+    JM:         SyntaxItemKind.I8080Op,
+    JMP:        SyntaxItemKind.I8080Op,
+    JNC:        SyntaxItemKind.I8080Op,
+    JNZ:        SyntaxItemKind.I8080Op,
+    JP:         SyntaxItemKind.I8080Op,
+    JPE:        SyntaxItemKind.I8080Op,
+    JPO:        SyntaxItemKind.I8080Op,
+    JZ:         SyntaxItemKind.I8080Op,
+    LDA:        SyntaxItemKind.I8080Op,
+    LDAX:       SyntaxItemKind.I8080Op,
+    LHLD:       SyntaxItemKind.I8080Op,
+    LXI:        SyntaxItemKind.I8080Op,
+    MOV:        SyntaxItemKind.I8080Op,
+    MVI:        SyntaxItemKind.I8080Op,
+    NOP:        SyntaxItemKind.I8080Op,
+    ORA:        SyntaxItemKind.I8080Op,
+    ORI:        SyntaxItemKind.I8080Op,
+    OUT:        SyntaxItemKind.I8080Op,
+    PCHL:       SyntaxItemKind.I8080Op,
+    POP:        SyntaxItemKind.I8080Op,
+    PUSH:       SyntaxItemKind.I8080Op,
+    RAL:        SyntaxItemKind.I8080Op,
+    RAR:        SyntaxItemKind.I8080Op,
+    RC:         SyntaxItemKind.I8080Op,
+    RET:        SyntaxItemKind.I8080Op,
+    RLC:        SyntaxItemKind.I8080Op,
+    RM:         SyntaxItemKind.I8080Op,
+    RNC:        SyntaxItemKind.I8080Op,
+    RNZ:        SyntaxItemKind.I8080Op,
+    RP:         SyntaxItemKind.I8080Op,
+    RPE:        SyntaxItemKind.I8080Op,
+    RPO:        SyntaxItemKind.I8080Op,
+    RRC:        SyntaxItemKind.I8080Op,
+    RST:        SyntaxItemKind.I8080Op,
+    RZ:         SyntaxItemKind.I8080Op,
+    SBB:        SyntaxItemKind.I8080Op,
+    SBI:        SyntaxItemKind.I8080Op,
+    SHLD:       SyntaxItemKind.I8080Op,
+    SPHL:       SyntaxItemKind.I8080Op,
+    STA:        SyntaxItemKind.I8080Op,
+    STAX:       SyntaxItemKind.I8080Op,
+    STC:        SyntaxItemKind.I8080Op,
+    SUB:        SyntaxItemKind.I8080Op,
+    SUI:        SyntaxItemKind.I8080Op,
+    XCHG:       SyntaxItemKind.I8080Op,
+    XRA:        SyntaxItemKind.I8080Op,
+    XRI:        SyntaxItemKind.I8080Op,
+    XTHL:       SyntaxItemKind.I8080Op,
+    A:          SyntaxItemKind.I8080Reg,
+    B:          SyntaxItemKind.I8080Reg,
+    C:          SyntaxItemKind.I8080Reg,
+    D:          SyntaxItemKind.I8080Reg,
+    E:          SyntaxItemKind.I8080Reg,
+    H:          SyntaxItemKind.I8080Reg,
+    L:          SyntaxItemKind.I8080Reg,
+    M:          SyntaxItemKind.I8080Reg,
+    SP:         SyntaxItemKind.I8080Reg,
+    PSW:        SyntaxItemKind.I8080Reg,
+};
+
+/** instruction and register names by CPU, Z80 is the default */
+const CPUSyntaxNames: {[cpu: number]: {[key: string]: SyntaxItemKind }} = {
+    [CPUType.None]: Z80SyntaxNames,
+    [CPUType.Z80]: Z80SyntaxNames,
+    [CPUType.M6502]: M6502SyntaxNames,
+    [CPUType.M65C02]: M65C02SyntaxNames,
+    [CPUType.M6510]: M6510SyntaxNames,
+    [CPUType.I8080]: I8080SyntaxNames,
+    [CPUType.SM83]: SM83SyntaxNames,
+};
+
+/** 
+ * Z80 condition codes, these are only recognized directly after 
+ * an instruction which takes a condition, to tell the C condition
+ * from the C register
+ */
+const Z80Conditions: {[key: string]: boolean } = {
+    NZ: true, Z: true, NC: true, C: true, PO: true, PE: true, P: true, M: true,
+};
+
+/** Z80 instructions which take a condition code */
+const Z80CondOps: {[key: string]: boolean } = {
+    JP: true, JR: true, CALL: true, RET: true,
+};
+
+/** registers which can appear in Z80 (rr) indirections */
+const Z80IndirectRegs: {[key: string]: boolean } = {
+    HL: true, BC: true, DE: true, SP: true, C: true, IX: true, IY: true,
+};
+
+/** opcode prefixes of the Z80 index registers and their 8-bit halves */
+const Z80IndexPrefixes: {[key: string]: number } = {
+    IX: 0xDD, IXH: 0xDD, IXL: 0xDD, IY: 0xFD, IYH: 0xFD, IYL: 0xFD,
+};
+
+/** operators in expression trees */
+enum ExprOp {
+    Num,        // a number literal
+    Sym,        // a symbol (label or constant) 
+    Char,       // a character literal, translated through the active charset
+    Neg,        // unary '-'
+    Not,        // unary '~'
+    Lo,         // unary '<' or LOW(), low byte
+    Hi,         // unary '>' or HIGH(), high byte
+    Add,        // '+'
+    Sub,        // '-'
+    Mul,        // '*'
+    Div,        // '/'
+    Mod,        // '%'
+    And,        // '&'
+    Or,         // '|'
+    Xor,        // '^'
+    Shl,        // '<<'
+    Shr,        // '>>'
+}
+
+/** binary operators by precedence level, lowest precedence first */
+const ExprBinaryOps: Array<{[kind: number]: ExprOp}> = [
+    { [TokenKind.Pipe]: ExprOp.Or },
+    { [TokenKind.Caret]: ExprOp.Xor },
+    { [TokenKind.Ampersand]: ExprOp.And },
+    { [TokenKind.ShiftLeft]: ExprOp.Shl, [TokenKind.ShiftRight]: ExprOp.Shr },
+    { [TokenKind.Plus]: ExprOp.Add, [TokenKind.Minus]: ExprOp.Sub },
+    { [TokenKind.Star]: ExprOp.Mul, [TokenKind.Slash]: ExprOp.Div, [TokenKind.Percent]: ExprOp.Mod },
+];
+
+/** unary operators */
+const ExprUnaryOps: {[kind: number]: ExprOp} = {
+    [TokenKind.Minus]: ExprOp.Neg,
+    [TokenKind.Tilde]: ExprOp.Not,
+    [TokenKind.Less]: ExprOp.Lo,
+    [TokenKind.Greater]: ExprOp.Hi,
+};
+
+/** builtin functions, the argument must be in brackets */
+const ExprFunctions: {[name: string]: ExprOp} = {
+    LOW: ExprOp.Lo,
+    HIGH: ExprOp.Hi,
+};
+
+function ExprOpToString(op: ExprOp): string {
+    switch (op) {
+        case ExprOp.Neg:    return "-";
+        case ExprOp.Not:    return "~";
+        case ExprOp.Lo:     return "<";
+        case ExprOp.Hi:     return ">";
+        case ExprOp.Add:    return "+";
+        case ExprOp.Sub:    return "-";
+        case ExprOp.Mul:    return "*";
+        case ExprOp.Div:    return "/";
+        case ExprOp.Mod:    return "%";
+        case ExprOp.And:    return "&";
+        case ExprOp.Or:     return "|";
+        case ExprOp.Xor:    return "^";
+        case ExprOp.Shl:    return "<<";
+        case ExprOp.Shr:    return ">>";
+        default: return "";
+    }
+}
+
+/** an expression tree, evaluated by the assembler once symbols are known */
+class Expr {
+    /** return a new number-literal expression */
+    public static Num(num: number): Expr {
+        const expr = new Expr();
+        expr.op = ExprOp.Num;
+        expr.num = num;
+        return expr;
+    }
+
+    /** return a new symbol expression */
+    public static Sym(name: string): Expr {
+        const expr = new Expr();
+        expr.op = ExprOp.Sym;
+        expr.sym = name;
+        return expr;
+    }
+
+    /** return a new character-literal expression */
+    public static Char(code: number): Expr {
+        const expr = new Expr();
+        expr.op = ExprOp.Char;
+        expr.num = code;
+        return expr;
+    }
+
+    /** return a new unary-operator expression */
+    public static Unary(op: ExprOp, left: Expr): Expr {
+        const expr = new Expr();
+        expr.op = op;
+        expr.left = left;
+        return expr;
+    }
+
+    /** return a new binary-operator expression */
+    public static Binary(op: ExprOp, left: Expr, right: Expr): Expr {
+        const expr = new Expr();
+        expr.op = op;
+        expr.left = left;
+        expr.right = right;
+        return expr;
+    }
+
+    public op: ExprOp = ExprOp.Num;
+    public num: number = 0;
+    public sym: string = null;
+    public left: Expr = null;
+    public right: Expr = null;
+    public bracketed: boolean = false;  // true if the expression was in (...)
+    public indexedX: boolean = false;   // true if the expression was in (...,X)
+
+    /** return a human-readable string of the expression */
+    public ToString(): string {
+        let str: string;
+        switch (this.op) {
+            case ExprOp.Num:    str = `${this.num}`; break;
+            case ExprOp.Sym:    str = this.sym; break;
+            case ExprOp.Char:   str = `'${String.fromCharCode(this.num)}'`; break;
+            case ExprOp.Neg:
+            case ExprOp.Not:
+            case ExprOp.Lo:
+            case ExprOp.Hi:
+                str = `${ExprOpToString(this.op)}${this.left.ToString()}`;
+                break;
+            default:
+                str = `${this.left.ToString()}${ExprOpToString(this.op)}${this.right.ToString()}`;
+                break;
+        }
+        if (this.indexedX) {
+            return `(${str},X)`;
+        }
+        return this.bracketed ? `(${str})` : str;
+    }
+}
+
 class SyntaxItem {
     public kind: SyntaxItemKind = SyntaxItemKind.Invalid;
     public str: string = null;
@@ -462,21 +1133,315 @@ class SyntaxItem {
     public hi: number = 0;
     public is8bit: boolean = false;    // true if 0<=num<(1<<8)
     public is16bit: boolean = false;   // true if 0<=num<(1<<16)
-    public prefix: number = 0; // only for Z80IndIdx, 0xDD for IX, 0xFD for IY
+    public prefix: number = 0; // only for IX/IY and their halves, 0xDD for IX, 0xFD for IY
+    public expr: Expr = null;   // value expression, evaluated by the assembler
     public line: number = 0;
+    public col: number = 0;
+    public len: number = 0;                 // length of the source span in characters
+    public file: string = null;             // source file name, null for the main source
+    public expansion: Expansion = null;     // set if the item is from a macro expansion
+    public data: Uint8Array = null;         // loaded file content for INCBIN
     public discard: boolean = false;
 
+    /** set the numeric value and derived fields */
+    public SetNum(num: number) {
+        this.num = num;
+        this.lo = num & 0xFF;
+        this.hi = (num >> 8) & 0xFF;
+        this.is8bit = is_8bit(num);
+        this.is16bit = is_16bit(num);
+    }
+
+    /** return a shallow copy of the syntax item */
+    public Clone(): SyntaxItem {
+        const item = new SyntaxItem();
+        item.kind = this.kind;
+        item.str = this.str;
+        item.num = this.num;
+        item.lo = this.lo;
+        item.hi = this.hi;
+        item.is8bit = this.is8bit;
+        item.is16bit = this.is16bit;
+        item.prefix = this.prefix;
+        item.expr = this.expr;
+        item.line = this.line;
+        item.col = this.col;
+        item.len = this.len;
+        item.file = this.file;
+        item.expansion = this.expansion;
+        item.data = this.data;
+        item.discard = this.discard;
+        return item;
+    }
+
     public ToString(): string {
         return `kind: ${SyntaxItemKindToString(this.kind)} str:${this.str} num:${this.num} line:${this.line}`;
     }
 }
 
-export class Error {
+/** where a macro was expanded, chained for nested macro expansions */
+export class Expansion {
+    public macro: string;
+    public line: number;        // line of the macro call
+    public file: string;        // file of the macro call
+    public parent: Expansion;   // the outer expansion, or null
+    constructor(macro: string, line: number, file: string, parent: Expansion) {
+        this.macro = macro;
+        this.line = line;
+        this.file = file;
+        this.parent = parent;
+    }
+}
+
+/** the severity of a diagnostic */
+export enum Severity {
+    Error,
+    Warning,
+    Info,
+}
+
+export function SeverityToString(severity: Severity): string {
+    switch (severity) {
+        case Severity.Error:    return "error";
+        case Severity.Warning:  return "warning";
+        case Severity.Info:     return "info";
+    }
+}
+
+/** stable diagnostic codes, E1xx tokenizer, E2xx parser, E3xx preprocessor, E4xx assembler */
+export enum ErrorCode {
+    InvalidNumber           = "E101",
+    UnterminatedLiteral     = "E102",
+    InvalidEscape           = "E103",
+    InvalidCharLiteral      = "E104",
+    UnexpectedCharacter     = "E105",
+
+    SyntaxError             = "E201",
+    ExpectedBracket         = "E202",
+
+    FileNotFound            = "E301",
+    RecursiveInclude        = "E302",
+    ExpectedFileName        = "E303",
+    InvalidMacro            = "E304",
+    MacroArguments          = "E305",
+    MacroRecursion          = "E306",
+
+    InvalidInstruction      = "E401",
+    InvalidOperand          = "E402",
+    ExpectedComma           = "E403",
+    ValueOutOfRange         = "E404",
+    BranchOutOfRange        = "E405",
+    UndefinedSymbol         = "E406",
+    DuplicateSymbol         = "E407",
+    DivisionByZero          = "E408",
+    UndocumentedInstruction = "E409",
+    InvalidCharset          = "E410",
+    SymbolsNotStable        = "E411",
+    NotImplemented          = "E412",
+    UnexpectedOperand       = "E413",
+
+    Internal                = "E901",
+}
+
+/** a range of source code, line and col are 1-based */
+export interface ISourceSpan {
+    file: string;   // source file name, null for the main source
+    line: number;
+    col: number;
+    len: number;    // length in characters
+}
+
+/** return a location string for error messages */
+function location_string(line: number, file: string, col: number = 0): string {
+    const loc = (col > 0) ? `line ${ line }, column ${ col }` : `line ${ line }`;
+    return (file !== null) ? `${ loc } of ${ file }` : loc;
+}
+
+/** an error, warning or info message with its source location */
+export class Diagnostic {
+    public severity: Severity;
+    public code: ErrorCode;
     public msg: string;
-    public line: number;
-    constructor(msg: string, line: number) {
+    public file: string = null;
+    public line: number = 0;    // 0 if the diagnostic has no source location
+    public col: number = 0;     // 0 if the column is unknown
+    public len: number = 0;
+    public expansion: Expansion;
+    constructor(severity: Severity, code: ErrorCode, msg: string, 
+                span: ISourceSpan = null, expansion: Expansion = null) {
+        this.severity = severity;
+        this.code = code;
         this.msg = msg;
-        this.line = line;
+        if (span !== null) {
+            this.file = span.file;
+            this.line = span.line;
+            this.col = span.col;
+            this.len = span.len;
+        }
+        this.expansion = expansion;
+    }
+
+    /** return a human-readable message with macro expansion trace */
+    public ToString(): string {
+        let str = `${ SeverityToString(this.severity) } ${ this.code }`;
+        if (this.line > 0) {
+            str += ` in ${ location_string(this.line, this.file, this.col) }`;
+        }
+        str += `: ${ this.msg }`;
+        for (let exp = this.expansion; exp !== null; exp = exp.parent) {
+            str += `\n    in macro ${ exp.macro } expanded in ${ location_string(exp.line, exp.file) }`;
+        }
+        return str;
+    }
+}
+
+/** return true if any of the diagnostics is an error */
+function has_errors(diagnostics: Diagnostic[]): boolean {
+    return diagnostics.some((diag) => diag.severity === Severity.Error);
+}
+
+/** output formats of the DiagnosticFormatter */
+export enum DiagnosticFormat {
+    Pretty,     // GCC-style message line, source excerpt with caret marker, macro expansion trace
+    GCC,        // file:line:col: severity: msg [code], macro expansions as notes
+    JSON,       // a JSON array of diagnostic objects
+}
+
+export interface IFormatOptions {
+    format?: DiagnosticFormat;      // default is Pretty
+    color?: boolean;                // ANSI colors for Pretty and GCC output, default is false
+    mainFile?: string;              // the name of the main source in messages, default is "<source>"
+    resolver?: IFileResolver;       // loads the source excerpts of included files
+}
+
+/** ANSI escape sequences used by the DiagnosticFormatter */
+const AnsiColors: {[name: string]: string} = {
+    bold:   "\x1b[1m",
+    red:    "\x1b[31m",
+    yellow: "\x1b[33m",
+    cyan:   "\x1b[36m",
+    green:  "\x1b[32m",
+    reset:  "\x1b[0m",
+};
+
+/** 
+ * The DiagnosticFormatter renders diagnostics into a string, it doesn't 
+ * write to the console so it can be used by any host (e.g. in a browser)
+ */
+export class DiagnosticFormatter {
+    private format: DiagnosticFormat;
+    private color: boolean;
+    private mainFile: string;
+    private resolver: IFileResolver;
+    private lines: {[file: string]: string[]} = {};
+
+    constructor(options: IFormatOptions = {}) {
+        this.format = (options.format !== undefined) ? options.format : DiagnosticFormat.Pretty;
+        this.color = (options.color !== undefined) ? options.color : false;
+        this.mainFile = (options.mainFile !== undefined) ? options.mainFile : "<source>";
+        this.resolver = (options.resolver !== undefined) ? options.resolver : null;
+    }
+
+    /** add a source text for excerpts, file is null for the main source */
+    public AddSource(file: string, src: string) {
+        this.lines[this.file_name(file)] = src.split(/\r?\n/);
+    }
+
+    /** return the formatted diagnostics */
+    public Format(diagnostics: Diagnostic[]): string {
+        if (this.format === DiagnosticFormat.JSON) {
+            return JSON.stringify(diagnostics.map((diag) => this.json_object(diag)));
+        }
+        return diagnostics.map((diag) => this.FormatOne(diag)).join("\n");
+    }
+
+    /** return one formatted diagnostic (Pretty or GCC format) */
+    public FormatOne(diag: Diagnostic): string {
+        if (this.format === DiagnosticFormat.JSON) {
+            return JSON.stringify(this.json_object(diag));
+        }
+        const severity = SeverityToString(diag.severity);
+        const severityColor = (diag.severity === Severity.Error) ? "red" :
+                              (diag.severity === Severity.Warning) ? "yellow" : "cyan";
+        let str = this.paint("bold", `${ this.location(diag.file, diag.line, diag.col) }: `) +
+                  this.paint(severityColor, `${ severity }: `) +
+                  this.paint("bold", `${ diag.msg } [${ diag.code }]`);
+        if (this.format === DiagnosticFormat.Pretty) {
+            const excerpt = this.excerpt(diag);
+            if (excerpt !== null) {
+                str += `\n${ excerpt }`;
+            }
+        }
+        for (let exp = diag.expansion; exp !== null; exp = exp.parent) {
+            str += `\n${ this.paint("bold", `${ this.location(exp.file, exp.line, 0) }: `) }` +
+                   `${ this.paint("cyan", "note: ") }in expansion of macro ${ exp.macro }`;
+        }
+        return str;
+    }
+
+    /** return the file name for messages */
+    private file_name(file: string): string {
+        return (file !== null) ? file : this.mainFile;
+    }
+
+    /** return a file:line:col location string, line and col are omitted if 0 */
+    private location(file: string, line: number, col: number): string {
+        let str = this.file_name(file);
+        if (line > 0) {
+            str += `:${ line }`;
+            if (col > 0) {
+                str += `:${ col }`;
+            }
+        }
+        return str;
+    }
+
+    /** return the source line and a caret marker under the span, or null if the source isn't known */
+    private excerpt(diag: Diagnostic): string {
+        if (diag.line === 0) {
+            return null;
+        }
+        const name = this.file_name(diag.file);
+        if (!(name in this.lines) && (diag.file !== null) && (this.resolver !== null)) {
+            const src = this.resolver.ReadText(diag.file);
+            this.lines[name] = (src !== null) ? src.split(/\r?\n/) : [];
+        }
+        const lines = this.lines[name];
+        if ((lines === undefined) || (diag.line > lines.length)) {
+            return null;
+        }
+        const line = lines[diag.line - 1];
+        let str = `    ${ line }`;
+        if (diag.col > 0) {
+            // keep tabs in the indentation so that the caret lines up with the source
+            const indent = line.slice(0, diag.col - 1).replace(/[^\t]/g, " ");
+            const marker = "^" + "~".repeat(Math.max(diag.len - 1, 0));
+            str += `\n    ${ indent }${ this.paint("green", marker) }`;
+        }
+        return str;
+    }
+
+    /** return a plain object for JSON output */
+    private json_object(diag: Diagnostic): object {
+        const expansions = new Array<object>();
+        for (let exp = diag.expansion; exp !== null; exp = exp.parent) {
+            expansions.push({ macro: exp.macro, file: exp.file, line: exp.line });
+        }
+        return {
+            severity: SeverityToString(diag.severity),
+            code: diag.code,
+            message: diag.msg,
+            file: diag.file,
+            line: diag.line,
+            column: diag.col,
+            length: diag.len,
+            expansions,
+        };
+    }
+
+    /** wrap a string into ANSI color escape sequences if colors are enabled */
+    private paint(color: string, str: string): string {
+        return this.color ? `${ AnsiColors[color] }${ str }${ AnsiColors.reset }` : str;
     }
 }
 
@@ -487,171 +1452,919 @@ export class Error {
 export class Parser {
     public tokenIndex: number = 0;
     public tokens: Token[];
+    public file: string = null;
+    public cpu: CPUType = CPUType.None;
     public items: SyntaxItem[];
-    public errors: Error[] = new Array<Error>();
+    public diagnostics: Diagnostic[] = new Array<Diagnostic>();
+    private inMacro: boolean = false;   // CPU keywords are rejected in macro bodies, and don't switch the CPU
 
-    public Parse(tokens: Token[]): SyntaxItem[] {
+    /** 
+     * parse tokens into syntax items, file is the source file name for error messages,
+     * names are classified by the CPU which is active at their position, starting with cpu
+     */
+    public Parse(tokens: Token[], file: string = null, cpu: CPUType = CPUType.None): SyntaxItem[] {
         this.tokens = tokens;
+        this.file = file;
+        this.cpu = cpu;
+        this.inMacro = false;
         this.tokenIndex = 0;
         this.items = new Array<SyntaxItem>();
-        this.errors = new Array<Error>();
+        this.diagnostics = new Array<Diagnostic>();
         while (true) {
             const item = new SyntaxItem();
-            let token = this.next_token();
-            if (token.kind === TokenKind.EOF) {
-                break;
-            }
+            let token = this.peek_token();
             item.line = token.line;
-            if (token.kind === TokenKind.Comma) {
+            item.col = token.col;
+            item.file = this.file;
+            if ((token.kind === TokenKind.EOL) || (token.kind === TokenKind.EOF)) {
+                // each line ends with an EOL item, empty lines are skipped
+                if ((this.items.length > 0) && (this.items[this.items.length - 1].kind !== SyntaxItemKind.EOL)) {
+                    item.kind = SyntaxItemKind.EOL;
+                    item.str = "end of line";
+                    item.len = token.len;
+                    this.items.push(item);
+                }
+                if (token.kind === TokenKind.EOF) {
+                    break;
+                }
+                this.tokenIndex++;
+                continue;
+            }
+            if (this.is_z80_condition()) {
+                this.skip_token();
+                item.kind = SyntaxItemKind.Z80Cond;
+                item.str = token.str;
+            }
+            else if (this.is_value_start()) {
+                // a numeric value expression, or an indirect (expr)
+                this.parse_value(item);
+            }
+            else if (token.kind === TokenKind.Pound) {
+                // a 6502 immediate value
+                this.skip_token();
+                item.expr = this.parse_expr(item);
+                if (item.expr !== null) {
+                    item.kind = SyntaxItemKind.M6502Imm;
+                    item.str = `#${ item.expr.ToString() }`;
+                }
+            }
+            else if (token.kind === TokenKind.Comma) {
                 // comma separators are passed through
+                this.skip_token();
                 item.kind = SyntaxItemKind.Comma;
                 item.str = ",";
             }
-            else if (token.kind === TokenKind.Number) {
-                item.kind = SyntaxItemKind.Number;
-                item.str = token.str;
-                item.num = token.num;
-                item.lo  = item.num & 0xFF;
-                item.hi  = (item.num >> 8) & 0xFF;
-                item.is8bit = is_8bit(item.num);
-                item.is16bit = is_16bit(item.num);
-            }
             else if (token.kind === TokenKind.String) {
                 // pass through string literals
+                this.skip_token();
                 item.kind = SyntaxItemKind.String;
                 item.str = token.str;
             }
             else if (token.kind === TokenKind.Name) {
+                this.skip_token();
                 if (this.peek_token().kind === TokenKind.Colon) {
                     this.skip_token();
                     item.kind = SyntaxItemKind.Label;
                     item.str = token.str;
                 }
-                else if (token.str in SyntaxNameMap) {
-                    item.kind = SyntaxNameMap[token.str];
+                else if (!this.is_reserved(token.str)) {
+                    // the name in NAME EQU expr or NAME = expr
+                    item.kind = SyntaxItemKind.Name;
                     item.str = token.str;
-                    if (token.str === "IX") {
-                        item.prefix = 0xDD;
-                    }
-                    else if (token.str === "IY") {
-                        item.prefix = 0xFD;
-                    }
                 }
                 else {
-                    item.kind = SyntaxItemKind.Name;
+                    item.kind = this.reserved_kind(token.str);
                     item.str = token.str;
+                    if (token.str in Z80IndexPrefixes) {
+                        item.prefix = Z80IndexPrefixes[token.str];
+                    }
+                    if ((token.str in CPUKeywords) && !this.inMacro) {
+                        this.cpu = CPUKeywords[token.str];
+                    }
+                    else if ((token.str === "MACRO") || (token.str === "ENDM")) {
+                        this.inMacro = token.str === "MACRO";
+                    }
                 }
             }
             else if (token.kind === TokenKind.LeftBracket) {
+                this.skip_token();
                 token = this.next_token();
-                if (token.kind === TokenKind.Number) {
-                    item.kind = SyntaxItemKind.Z80IndImm,
-                    item.str = token.str;
-                    item.num = token.num;
-                    item.lo = item.num & 0xFF;
-                    item.hi = (item.num >> 8) & 0xFF;
-                    item.is8bit = is_8bit(item.num);
-                    item.is16bit = is_16bit(item.num);
-                    if (!item.is16bit) {
-                        this.error(item, "16-bit integer overflow!");
-                    }
-                }
-                else if (token.kind === TokenKind.Name) {
-                    item.str = token.str;
-                    switch (token.str) {
-                        case "HL":
-                        case "BC":
-                        case "DE":
-                        case "SP":
+                item.str = token.str;
+                switch (token.str) {
+                    case "HL":
+                        item.kind = SyntaxItemKind.Z80IndR16;
+                        token = this.peek_token();
+                        if ((this.cpu === CPUType.SM83) && (this.peek_token(1).kind === TokenKind.RightBracket) &&
+                            ((token.kind === TokenKind.Plus) || (token.kind === TokenKind.Minus))) {
+                            // the SM83 (HL+) and (HL-)
+                            this.skip_token();
+                            item.str = (token.kind === TokenKind.Plus) ? "HL+" : "HL-";
+                        }
+                        break;
+                    case "BC":
+                    case "DE":
+                    case "SP":
+                        item.kind = SyntaxItemKind.Z80IndR16;
+                        break;
+                    case "C":
+                        item.kind = SyntaxItemKind.Z80IndC;
+                        break;
+                    case "IX":
+                    case "IY":
+                        item.prefix = token.str === "IX" ? 0xDD : 0xFD;
+                        token = this.peek_token();
+                        if ((token.kind === TokenKind.Plus) || (token.kind === TokenKind.Minus)) {
+                            // (IX+d) or (IY+d), the sign is parsed as part of the expression
+                            item.kind = SyntaxItemKind.Z80IndIdx;
+                            item.expr = this.parse_expr(item);
+                        }
+                        else {
                             item.kind = SyntaxItemKind.Z80IndR16;
-                            break;
-                        case "C":
-                            item.kind = SyntaxItemKind.Z80IndC;
-                            break;
-                        case "IX":
-                        case "IY":
-                            item.prefix = token.str === "IX" ? 0xDD : 0xFD;
-                            token = this.next_token();
-                            if ((token.kind === TokenKind.Plus) || (token.kind === TokenKind.Minus)) {
-                                // (IX+d) or (IY+d)
-                                const neg = token.kind === TokenKind.Minus;
-                                item.kind = SyntaxItemKind.Z80IndIdx;
-                                token = this.next_token();
-                                if (token.kind === TokenKind.Number) {
-                                    item.num = neg ? -token.num : token.num;
-                                    item.lo = item.num & 0xFF;
-                                    item.hi = 0;
-                                    item.is8bit = is_8bit(item.num);
-                                    item.is16bit = is_16bit(item.num);
-                                    if (!item.is8bit) {
-                                        this.error(item, "d in (IX/IY+d) must be an 8-bit value");
-                                    }
-                                }
-                                else {
-                                    this.error(item, "expected offset in (IX+d)/(IY+d)");
-                                }
-                            }
-                            else {
-                                item.kind = SyntaxItemKind.Z80IndR16;
-                            }
-                            break;
-                        default:
-                            this.error(item, "expected indirection register");
-                            break;
-                    }
+                        }
+                        break;
                 }
                 token = this.next_token();
                 if (token.kind !== TokenKind.RightBracket) {
-                    this.error(item, "expected closing bracket");
+                    this.error(item, ErrorCode.ExpectedBracket, "expected closing bracket", token);
                 }
             }
+            else if (token.kind === TokenKind.Equals) {
+                // NAME = expr is the same as NAME EQU expr
+                this.skip_token();
+                item.kind = SyntaxItemKind.Keyword;
+                item.str = "EQU";
+            }
             else if (token.kind === TokenKind.Error) {
-                this.error(item, token.str);
+                this.skip_token();
+                this.error(item, token.code, token.str, token);
             }
             else {
-                this.error(item, `unhandled token: ${ TokenKindToString(token.kind )}`);
+                this.skip_token();
+                this.error(item, ErrorCode.SyntaxError, `unhandled token: ${ TokenKindToString(token.kind )}`, token);
             }
+            // the item spans from its first to its last token
+            const last = this.tokens[Math.min(this.tokenIndex, this.tokens.length) - 1];
+            item.len = (last.line === item.line) ? (last.col + last.len - item.col) : 0;
             if (!item.discard) {
                 this.items.push(item);
             }
+            else {
+                this.recover();
+            }
         }
         return this.items;
     }
     
     public HasErrors(): boolean {
-        return this.errors.length > 0;
+        return has_errors(this.diagnostics);
     }
 
-    public PrintErrors() {
-        for (const err of this.errors) {
-            console.log(`error in line ${ err.line }: ${ err.msg }`);
+    /** 
+     * return true if the next token starts a value expression, a 
+     * bracket only starts a value if it's not a register indirection 
+     */
+    private is_value_start(): boolean {
+        const token = this.peek_token();
+        switch (token.kind) {
+            case TokenKind.Number:
+            case TokenKind.Char:
+            case TokenKind.Plus:
+            case TokenKind.Minus:
+            case TokenKind.Tilde:
+            case TokenKind.Less:
+            case TokenKind.Greater:
+                return true;
+            case TokenKind.Name:
+                return !this.is_reserved(token.str) && !this.is_definition();
+            case TokenKind.LeftBracket:
+                {
+                    // only a register of the active CPU is an indirection
+                    const reg = this.peek_token(1).str;
+                    const kind = this.reserved_kind(reg);
+                    const isReg = (kind === SyntaxItemKind.Z80R8) || (kind === SyntaxItemKind.Z80R16);
+                    return !((reg in Z80IndirectRegs) && isReg);
+                }
+            default:
+                return false;
         }
     }
 
-    private peek_token(): Token {
-        let token = this.tokens[this.tokenIndex];
-        if (token === undefined) {
-            token = new Token();
-            token.kind = TokenKind.EOF;
+    /** return the syntax item kind of a keyword or a name of the active CPU, or undefined */
+    private reserved_kind(name: string): SyntaxItemKind {
+        if (name in SyntaxKeywords) {
+            return SyntaxKeywords[name];
         }
-        return token;
+        return CPUSyntaxNames[this.cpu][name];
     }
 
-    private skip_token() {
-        this.tokenIndex++;
+    /** return true if a name is a keyword or a name of the active CPU */
+    private is_reserved(name: string): boolean {
+        return this.reserved_kind(name) !== undefined;
     }
 
-    private next_token(): Token {
+    /** return true if the next token is a condition code after JP, JR, CALL or RET */
+    private is_z80_condition(): boolean {
+        const token = this.peek_token();
+        const prev = this.items[this.items.length - 1];
+        return (token.kind === TokenKind.Name) && (token.str in Z80Conditions) &&
+               (prev !== undefined) && (prev.kind === SyntaxItemKind.Z80Op) && (prev.str in Z80CondOps) &&
+               !this.is_definition();
+    }
+
+    /** return true if the next token is a label or constant definition name */
+    private is_definition(): boolean {
+        const next = this.peek_token(1);
+        return (next.kind === TokenKind.Colon) || 
+               (next.kind === TokenKind.Equals) || 
+               ((next.kind === TokenKind.Name) && (next.str === "EQU"));
+    }
+
+    /** 
+     * parse a value expression into a syntax item, an expression 
+     * completely enclosed in brackets is a Z80 indirect-immediate
+     * or 6502 indirect, (expr,X) is a 6502 indexed-indirect
+     */
+    private parse_value(item: SyntaxItem) {
+        const expr = this.parse_expr(item);
+        if (expr === null) {
+            return;
+        }
+        if (expr.indexedX) {
+            item.kind = SyntaxItemKind.M6502IndX;
+        }
+        else {
+            item.kind = expr.bracketed ? SyntaxItemKind.Z80IndImm : SyntaxItemKind.Number;
+        }
+        item.str = expr.ToString();
+        item.expr = expr;
+    }
+
+    /** parse an expression, return null on error */
+    private parse_expr(item: SyntaxItem): Expr {
+        return this.parse_binary(item, 0);
+    }
+
+    /** parse a binary-operator expression at a precedence level */
+    private parse_binary(item: SyntaxItem, level: number): Expr {
+        if (level >= ExprBinaryOps.length) {
+            return this.parse_unary(item);
+        }
+        const ops = ExprBinaryOps[level];
+        let left = this.parse_binary(item, level + 1);
+        while ((left !== null) && (this.peek_token().kind in ops)) {
+            const op = ops[this.next_token().kind];
+            const right = this.parse_binary(item, level + 1);
+            left = (right === null) ? null : Expr.Binary(op, left, right);
+        }
+        return left;
+    }
+
+    /** parse a unary-operator expression */
+    private parse_unary(item: SyntaxItem): Expr {
+        const token = this.peek_token();
+        if (token.kind in ExprUnaryOps) {
+            this.skip_token();
+            const expr = this.parse_unary(item);
+            return (expr === null) ? null : Expr.Unary(ExprUnaryOps[token.kind], expr);
+        }
+        else if (token.kind === TokenKind.Plus) {
+            this.skip_token();
+            return this.parse_unary(item);
+        }
+        else {
+            return this.parse_primary(item);
+        }
+    }
+
+    /** parse a number, symbol or bracketed expression */
+    private parse_primary(item: SyntaxItem): Expr {
+        const token = this.next_token();
+        if (token.kind === TokenKind.Number) {
+            return Expr.Num(token.num);
+        }
+        else if (token.kind === TokenKind.Char) {
+            return Expr.Char(token.num);
+        }
+        else if ((token.kind === TokenKind.Name) && (token.str in ExprFunctions) && 
+                 (this.peek_token().kind === TokenKind.LeftBracket)) {
+            // LOW(expr) or HIGH(expr)
+            const expr = this.parse_primary(item);
+            return (expr === null) ? null : Expr.Unary(ExprFunctions[token.str], expr);
+        }
+        else if ((token.kind === TokenKind.Name) && !this.is_reserved(token.str)) {
+            return Expr.Sym(token.str);
+        }
+        else if (token.kind === TokenKind.LeftBracket) {
+            const expr = this.parse_expr(item);
+            if (expr === null) {
+                return null;
+            }
+            if ((this.peek_token().kind === TokenKind.Comma) && (this.peek_token(1).str === "X")) {
+                // 6502 (zp,X)
+                this.skip_token();
+                this.skip_token();
+                expr.indexedX = true;
+            }
+            const closing = this.next_token();
+            if (closing.kind !== TokenKind.RightBracket) {
+                this.error(item, ErrorCode.ExpectedBracket, "expected closing bracket", closing);
+                return null;
+            }
+            expr.bracketed = true;
+            return expr;
+        }
+        else if (token.kind === TokenKind.Error) {
+            this.error(item, token.code, token.str, token);
+            return null;
+        }
+        else {
+            const str = (token.kind === TokenKind.EOL) ? "end of line" :
+                        token.str ? token.str : TokenKindToString(token.kind);
+            this.error(item, ErrorCode.SyntaxError, `unexpected ${ str } in expression`, token);
+            return null;
+        }
+    }
+
+    private peek_token(offset: number = 0): Token {
+        let token = this.tokens[this.tokenIndex + offset];
+        if (token === undefined) {
+            // past the end, the tokenizer's EOF token has the source location
+            const last = this.tokens[this.tokens.length - 1];
+            if ((last !== undefined) && (last.kind === TokenKind.EOF)) {
+                return last;
+            }
+            token = new Token();
+            token.kind = TokenKind.EOF;
+        }
+        return token;
+    }
+
+    /** skip the current token, the end of a line is only skipped by the Parse loop */
+    private skip_token() {
+        if (this.peek_token().kind !== TokenKind.EOL) {
+            this.tokenIndex++;
+        }
+    }
+
+    /** 
+     * after an error, drop the statement of the line and continue in the next line,
+     * labels are kept, and symbol definitions are kept with the value 0, so that there
+     * are no follow-on errors where the symbols are used, a MACRO header is kept with
+     * its name and the parameters before the error, so that the body still ends at ENDM
+     */
+    private recover() {
+        let start = this.items.length;
+        while ((start > 0) && (this.items[start - 1].kind !== SyntaxItemKind.EOL)) {
+            start--;
+        }
+        while ((start < this.items.length) && (this.items[start].kind === SyntaxItemKind.Label)) {
+            start++;
+        }
+        const stmt = this.items.splice(start);
+        const isSym = (item: SyntaxItem) => (item.kind === SyntaxItemKind.Number) && (item.expr.op === ExprOp.Sym);
+        const isDef = (stmt.length >= 2) && (
+            ((stmt[0].kind === SyntaxItemKind.Name) && (stmt[1].str === "EQU")) ||
+            ((stmt[0].kind === SyntaxItemKind.Keyword) && ((stmt[0].str === "CONST") || (stmt[0].str === "VAR")) &&
+             isSym(stmt[1])));
+        if ((stmt.length >= 2) && (stmt[0].kind === SyntaxItemKind.Keyword) && (stmt[0].str === "MACRO") &&
+            isSym(stmt[1])) {
+            let end = 2;
+            while (((end + 1) < stmt.length) && (stmt[end].kind === SyntaxItemKind.Comma) && isSym(stmt[end + 1])) {
+                end += 2;
+            }
+            this.items.push(...stmt.slice(0, end));
+        }
+        else if (isDef) {
+            const placeholder = new SyntaxItem();
+            placeholder.kind = SyntaxItemKind.Number;
+            placeholder.expr = Expr.Num(0);
+            placeholder.str = "0";
+            placeholder.line = stmt[0].line;
+            placeholder.file = this.file;
+            this.items.push(stmt[0], stmt[1]);
+            if (stmt[0].kind === SyntaxItemKind.Keyword) {
+                const comma = new SyntaxItem();
+                comma.kind = SyntaxItemKind.Comma;
+                comma.str = ",";
+                comma.line = stmt[0].line;
+                comma.file = this.file;
+                this.items.push(comma);
+            }
+            this.items.push(placeholder);
+        }
+        while ((this.peek_token().kind !== TokenKind.EOL) && (this.peek_token().kind !== TokenKind.EOF)) {
+            this.tokenIndex++;
+        }
+    }
+
+    private next_token(): Token {
         const token = this.peek_token();
         this.skip_token();
         return token;
     }
 
-    private error(item: SyntaxItem, msg: string) {
+    /** record an error at the token (or at the item if there's no token), and discard the item */
+    private error(item: SyntaxItem, code: ErrorCode, msg: string, token: Token = null) {
         item.discard = true;
-        this.errors.push(new Error(msg, item.line));
+        const span = ((token === null) || (token.line === 0)) ? item :
+                     { file: this.file, line: token.line, col: token.col, len: token.len };
+        this.diagnostics.push(new Diagnostic(Severity.Error, code, msg, span));
+    }
+
+}
+
+/** normalize a file path by removing '.' and '..' components */
+function normalize_path(path: string): string {
+    const parts = new Array<string>();
+    for (const part of path.split("/")) {
+        if ((part === "") || (part === ".")) {
+            continue;
+        }
+        else if ((part === "..") && (parts.length > 0) && (parts[parts.length - 1] !== "..")) {
+            parts.pop();
+        }
+        else {
+            parts.push(part);
+        }
     }
+    return (path.startsWith("/") ? "/" : "") + parts.join("/");
+}
 
+/** return the directory of a file path, or an empty string */
+function dir_name(path: string): string {
+    const index = path.lastIndexOf("/");
+    return (index === -1) ? "" : path.slice(0, index + 1);
+}
+
+/** join a directory and a relative file path */
+function join_path(dir: string, path: string): string {
+    if ((dir === "") || path.startsWith("/")) {
+        return normalize_path(path);
+    }
+    return normalize_path(dir.endsWith("/") ? dir + path : `${dir}/${path}`);
+}
+
+/** a file resolver loads files for INCLUDE and INCBIN, paths are '/'-separated */
+export interface IFileResolver {
+    /** return the content of a text file, or null if the file doesn't exist */
+    ReadText(path: string): string;
+    /** return the content of a binary file, or null if the file doesn't exist */
+    ReadBinary(path: string): Uint8Array;
+}
+
+/** 
+ * a file resolver for in-memory files (for browsers and tests), text
+ * and binary files are converted into each other as 8-bit characters
+ */
+export class MemoryFileResolver implements IFileResolver {
+    public files: {[path: string]: string|Uint8Array} = {};
+
+    constructor(files: {[path: string]: string|Uint8Array}) {
+        for (const path in files) {
+            if (files.hasOwnProperty(path)) {
+                this.files[normalize_path(path)] = files[path];
+            }
+        }
+    }
+
+    public ReadText(path: string): string {
+        const file = this.files[normalize_path(path)];
+        if (file === undefined) {
+            return null;
+        }
+        else if (typeof file === "string") {
+            return file;
+        }
+        else {
+            let str = "";
+            for (const byte of file) {
+                str += String.fromCharCode(byte);
+            }
+            return str;
+        }
+    }
+
+    public ReadBinary(path: string): Uint8Array {
+        const file = this.files[normalize_path(path)];
+        if (file === undefined) {
+            return null;
+        }
+        else if (typeof file === "string") {
+            return new Uint8Array(Array.from(file, (c) => c.charCodeAt(0) & 0xFF));
+        }
+        else {
+            return file;
+        }
+    }
+}
+
+/** a macro definition */
+class Macro {
+    public name: string;
+    public params: string[] = [];
+    public body: SyntaxItem[] = [];
+    public line: number = 0;
+}
+
+/** max nesting depth of macro expansions */
+const MaxMacroDepth = 16;
+
+/**
+ * The Preprocessor takes the SyntaxItems from the parser and
+ * resolves includes and expands macros into a new array of SyntaxItems. 
+ * Macros must be defined before they are used, labels inside macros are 
+ * local to each expansion. Included source and binary files are loaded 
+ * through a file resolver, first relative to the including file, then 
+ * from the include paths. An included file is parsed in the CPU mode 
+ * which is active at the INCLUDE.
+ */
+export class Preprocessor {
+    /** return the symbol name if the syntax item is a plain symbol, otherwise null */
+    private static symbol_name(item: SyntaxItem): string {
+        if ((item !== undefined) && (item.kind === SyntaxItemKind.Number) && 
+            (item.expr.op === ExprOp.Sym) && !item.expr.bracketed) {
+            return item.expr.sym;
+        }
+        return null;
+    }
+
+    /** return true if a syntax item can be a macro argument */
+    private static is_arg(item: SyntaxItem): boolean {
+        switch (item.kind) {
+            case SyntaxItemKind.Comma:
+            case SyntaxItemKind.Label:
+            case SyntaxItemKind.Name:
+            case SyntaxItemKind.Keyword:
+            case SyntaxItemKind.Z80Op:
+            case SyntaxItemKind.M6502Op:
+            case SyntaxItemKind.EOL:
+                return false;
+            default:
+                return true;
+        }
+    }
+
+    /** return the index of the EOL item which ends the line at index */
+    private static skip_line(items: SyntaxItem[], index: number): number {
+        while ((index < items.length) && (items[index].kind !== SyntaxItemKind.EOL)) {
+            index++;
+        }
+        return index;
+    }
+
+    public items: SyntaxItem[];
+    public diagnostics: Diagnostic[] = new Array<Diagnostic>();
+    public resolver: IFileResolver;
+    public includePaths: string[];
+    private macros: {[name: string]: Macro} = {};
+    private numExpansions: number = 0;
+    private includeStack: string[] = [];
+    private cpu: CPUType = CPUType.None;
+
+    constructor(resolver: IFileResolver = null, includePaths: string[] = []) {
+        this.resolver = resolver;
+        this.includePaths = includePaths;
+    }
+
+    /** process syntax items, file is the source file name of the items */
+    public Process(items: SyntaxItem[], file: string = null): SyntaxItem[] {
+        this.diagnostics = new Array<Diagnostic>();
+        this.macros = {};
+        this.numExpansions = 0;
+        this.cpu = CPUType.None;
+        this.includeStack = (file !== null) ? [ normalize_path(file) ] : [];
+        this.items = this.process(items, 0);
+        return this.items;
+    }
+
+    public HasErrors(): boolean {
+        return has_errors(this.diagnostics);
+    }
+
+    /** process an array of syntax items, expanding macro calls */
+    private process(items: SyntaxItem[], depth: number): SyntaxItem[] {
+        const outp = new Array<SyntaxItem>();
+        let index = 0;
+        while (index < items.length) {
+            const item = items[index++];
+            if ((item.kind === SyntaxItemKind.Keyword) && (item.str === "MACRO")) {
+                index = this.define_macro(items, index, item);
+            }
+            else if ((item.kind === SyntaxItemKind.Keyword) && (item.str === "ENDM")) {
+                this.error(item, ErrorCode.InvalidMacro, "ENDM without MACRO");
+                index = Preprocessor.skip_line(items, index);
+            }
+            else if ((item.kind === SyntaxItemKind.Keyword) && (item.str in CPUKeywords)) {
+                this.cpu = CPUKeywords[item.str];
+                outp.push(item);
+            }
+            else if ((item.kind === SyntaxItemKind.Keyword) && (item.str === "INCLUDE")) {
+                if ((index < items.length) && (items[index].kind === SyntaxItemKind.String)) {
+                    const name = items[index++].str;
+                    index = this.expect_line_end(items, index);
+                    for (const included of this.include(item, name, depth)) {
+                        outp.push(included);
+                    }
+                }
+                else {
+                    this.error(item, ErrorCode.ExpectedFileName, "expected file name after INCLUDE");
+                    index = Preprocessor.skip_line(items, index);
+                }
+            }
+            else if ((item.kind === SyntaxItemKind.Keyword) && (item.str === "INCBIN")) {
+                // the binary data is attached to the file name item, and emitted by the assembler
+                outp.push(item);
+                if ((index < items.length) && (items[index].kind === SyntaxItemKind.String)) {
+                    outp.push(this.incbin(items[index++]));
+                }
+            }
+            else if ((item.kind === SyntaxItemKind.Label) && (item.str in this.macros)) {
+                this.error(item, ErrorCode.InvalidMacro, `label conflicts with macro name: ${ item.str }`);
+            }
+            else if (this.is_macro_call(items, index - 1)) {
+                const macro = this.macros[item.expr.sym];
+                const args = new Array<SyntaxItem>();
+                while ((args.length < macro.params.length) && (index < items.length)) {
+                    if (args.length > 0) {
+                        if (items[index].kind !== SyntaxItemKind.Comma) {
+                            break;
+                        }
+                        index++;
+                    }
+                    if ((index >= items.length) || !Preprocessor.is_arg(items[index])) {
+                        break;
+                    }
+                    args.push(items[index++]);
+                }
+                const tooMany = (index < items.length) && (items[index].kind === SyntaxItemKind.Comma);
+                if ((args.length !== macro.params.length) || tooMany) {
+                    this.error(item, ErrorCode.MacroArguments,
+                        `macro ${ macro.name } expects ${ macro.params.length } argument(s)`);
+                    index = Preprocessor.skip_line(items, index);
+                }
+                else if (depth >= MaxMacroDepth) {
+                    this.error(item, ErrorCode.MacroRecursion,
+                        `macro ${ macro.name } nested too deeply (recursive macro?)`);
+                }
+                else {
+                    const end = this.expect_line_end(items, index);
+                    if (end === index) {
+                        for (const expanded of this.expand(macro, args, item, depth)) {
+                            outp.push(expanded);
+                        }
+                    }
+                    index = end;
+                }
+            }
+            else {
+                outp.push(item);
+            }
+        }
+        return outp;
+    }
+
+    /** check that the line ends at index, return the index of the line end */
+    private expect_line_end(items: SyntaxItem[], index: number): number {
+        if ((index < items.length) && (items[index].kind !== SyntaxItemKind.EOL)) {
+            this.error(items[index], ErrorCode.UnexpectedOperand, `unexpected operand: ${ items[index].str }`);
+            return Preprocessor.skip_line(items, index);
+        }
+        return index;
+    }
+
+    /** load, parse and process an included source file */
+    private include(item: SyntaxItem, name: string, depth: number): SyntaxItem[] {
+        if (!this.expect_resolver(item, name)) {
+            return [];
+        }
+        for (const path of this.include_candidates(item.file, name)) {
+            const src = this.resolver.ReadText(path);
+            if (src === null) {
+                continue;
+            }
+            if (this.includeStack.indexOf(path) !== -1) {
+                this.error(item, ErrorCode.RecursiveInclude, `recursive include: ${ path }`);
+                return [];
+            }
+            const tokenizer = new Tokenizer();
+            const parser = new Parser();
+            const items = parser.Parse(tokenizer.Tokenize(src), path, this.cpu);
+            for (const diag of parser.diagnostics) {
+                this.diagnostics.push(diag);
+            }
+            for (const included of items) {
+                included.expansion = item.expansion;
+            }
+            this.includeStack.push(path);
+            const outp = this.process(items, depth);
+            this.includeStack.pop();
+            return outp;
+        }
+        this.error(item, ErrorCode.FileNotFound, `include file not found: ${ name }`);
+        return [];
+    }
+
+    /** load a binary file, and return a copy of the file name item with the data attached */
+    private incbin(item: SyntaxItem): SyntaxItem {
+        const res = item.Clone();
+        if (this.expect_resolver(item, item.str)) {
+            for (const path of this.include_candidates(item.file, item.str)) {
+                res.data = this.resolver.ReadBinary(path);
+                if (res.data !== null) {
+                    return res;
+                }
+            }
+            this.error(item, ErrorCode.FileNotFound, `binary file not found: ${ item.str }`);
+        }
+        return res;
+    }
+
+    private expect_resolver(item: SyntaxItem, name: string): boolean {
+        if (this.resolver !== null) {
+            return true;
+        }
+        else {
+            this.error(item, ErrorCode.FileNotFound, `can't load ${ name }: no file resolver`);
+            return false;
+        }
+    }
+
+    /** return the paths where an included file is searched */
+    private include_candidates(from: string, name: string): string[] {
+        if (name.startsWith("/")) {
+            return [ normalize_path(name) ];
+        }
+        const paths = [ join_path((from !== null) ? dir_name(from) : "", name) ];
+        for (const dir of this.includePaths) {
+            paths.push(join_path(dir, name));
+        }
+        return paths;
+    }
+
+    /** 
+     * return true if the syntax item at index is a call to a macro, a macro
+     * name only starts a statement, in operand position it's a symbol reference
+     */
+    private is_macro_call(items: SyntaxItem[], index: number): boolean {
+        const name = Preprocessor.symbol_name(items[index]);
+        const prev = items[index - 1];
+        return (name !== null) && (name in this.macros) &&
+               ((prev === undefined) || (prev.kind === SyntaxItemKind.EOL) || (prev.kind === SyntaxItemKind.Label));
+    }
+
+    /** 
+     * define a macro from MACRO name,params... to ENDM, return the 
+     * item index after the ENDM
+     */
+    private define_macro(items: SyntaxItem[], index: number, start: SyntaxItem): number {
+        const macro = new Macro();
+        macro.line = start.line;
+        let valid = true;
+        macro.name = Preprocessor.symbol_name(items[index]);
+        if (macro.name !== null) {
+            index++;
+            while ((index < items.length) && (items[index].kind === SyntaxItemKind.Comma)) {
+                const param = Preprocessor.symbol_name(items[index + 1]);
+                if (param !== null) {
+                    macro.params.push(param);
+                    index += 2;
+                }
+                else {
+                    this.error(start, ErrorCode.InvalidMacro, "expected macro parameter name");
+                    valid = false;
+                    break;
+                }
+            }
+        }
+        else {
+            this.error(start, ErrorCode.InvalidMacro, "expected macro name");
+            valid = false;
+        }
+        if (valid) {
+            index = this.expect_line_end(items, index);
+        }
+        // collect body up to ENDM
+        while (true) {
+            const item = items[index++];
+            if (item === undefined) {
+                this.error(start, ErrorCode.InvalidMacro, "MACRO without ENDM");
+                return index;
+            }
+            else if (item.kind === SyntaxItemKind.Keyword) {
+                if (item.str === "ENDM") {
+                    index = this.expect_line_end(items, index);
+                    break;
+                }
+                else if (item.str === "MACRO") {
+                    this.error(item, ErrorCode.InvalidMacro, "nested MACRO definition");
+                    valid = false;
+                }
+                else if (item.str in CPUKeywords) {
+                    // the parser classifies the body with the CPU at the definition
+                    this.error(item, ErrorCode.InvalidMacro, `CPU keyword in MACRO: ${ item.str }`);
+                    continue;
+                }
+            }
+            macro.body.push(item);
+        }
+        if (valid) {
+            if (macro.name in this.macros) {
+                this.error(start, ErrorCode.InvalidMacro, `duplicate macro: ${ macro.name }`);
+            }
+            else {
+                this.macros[macro.name] = macro;
+            }
+        }
+        return index;
+    }
+
+    /** expand a macro with arguments, and recursively expand nested macro calls */
+    private expand(macro: Macro, args: SyntaxItem[], call: SyntaxItem, depth: number): SyntaxItem[] {
+        this.numExpansions++;
+        const expansion = new Expansion(macro.name, call.line, call.file, call.expansion);
+        // labels defined in the macro get a unique name per expansion
+        const names: {[name: string]: SyntaxItem} = {};
+        for (let i = 0; i < macro.params.length; i++) {
+            names[macro.params[i]] = args[i];
+        }
+        const locals: {[name: string]: string} = {};
+        for (const item of macro.body) {
+            if (item.kind === SyntaxItemKind.Label) {
+                locals[item.str] = `${ item.str }@${ this.numExpansions }`;
+            }
+        }
+        const items = new Array<SyntaxItem>();
+        for (const item of macro.body) {
+            let res: SyntaxItem;
+            const name = Preprocessor.symbol_name(item);
+            if ((name !== null) && (name in names)) {
+                // the item is a macro parameter, replace with the argument
+                res = names[name].Clone();
+                res.file = item.file;
+                res.line = item.line;
+                res.col = item.col;
+                res.len = item.len;
+            }
+            else {
+                res = item.Clone();
+                if ((res.kind === SyntaxItemKind.Label) && (res.str in locals)) {
+                    res.str = locals[res.str];
+                }
+                if (res.expr !== null) {
+                    res.expr = this.substitute(res, res.expr, names, locals);
+                    if (res.kind === SyntaxItemKind.M6502Imm) {
+                        res.str = `#${ res.expr.ToString() }`;
+                    }
+                    else if (res.kind !== SyntaxItemKind.Z80IndIdx) {
+                        res.str = res.expr.ToString();
+                    }
+                }
+            }
+            res.expansion = expansion;
+            items.push(res);
+        }
+        return this.process(items, depth + 1);
+    }
+
+    /** return a copy of an expression with macro parameters and local labels substituted */
+    private substitute(item: SyntaxItem, expr: Expr, 
+                       names: {[name: string]: SyntaxItem}, 
+                       locals: {[name: string]: string}): Expr {
+        let res: Expr;
+        if (expr.op === ExprOp.Sym) {
+            if (expr.sym in names) {
+                const arg = names[expr.sym];
+                if (arg.expr === null) {
+                    this.error(item, ErrorCode.MacroArguments,
+                        `macro argument ${ expr.sym } must be a value: ${ arg.str }`);
+                    return expr;
+                }
+                res = Object.assign(new Expr(), arg.expr);
+            }
+            else if (expr.sym in locals) {
+                res = Expr.Sym(locals[expr.sym]);
+            }
+            else {
+                return expr;
+            }
+        }
+        else if (expr.left !== null) {
+            res = Object.assign(new Expr(), expr);
+            res.left = this.substitute(item, expr.left, names, locals);
+            if (expr.right !== null) {
+                res.right = this.substitute(item, expr.right, names, locals);
+            }
+        }
+        else {
+            return expr;
+        }
+        res.bracketed = expr.bracketed || res.bracketed;
+        return res;
+    }
+
+    private error(item: SyntaxItem, code: ErrorCode, msg: string) {
+        this.diagnostics.push(new Diagnostic(Severity.Error, code, msg, item, item.expansion));
+    }
 }
 
 /** ByteRanges is what the Assembler generates from SyntaxItem objects */
@@ -659,18 +2372,341 @@ export class ByteRange {
     public addr: number = 0;
     public bytes: number[];
     public line: number = 0;
+    public col: number = 0;
+    public len: number = 0;
+    public file: string = null;
+    public expansion: Expansion = null;
     public label: string = null;
     public ready: boolean = false;
     public discard: boolean = false;
 }
 
-/** supported CPU types */
-enum CPUType {
-    None,
-    Z80,
-    M6502,
+/** 6502 addressing modes, in the column order of the 6502 opcode tables */
+enum M6502Mode {
+    Implied,            // no operand
+    Accumulator,        // A
+    Immediate,          // #n
+    ZeroPage,           // zp
+    ZeroPageX,          // zp,X
+    ZeroPageY,          // zp,Y
+    Absolute,           // nnnn
+    AbsoluteX,          // nnnn,X
+    AbsoluteY,          // nnnn,Y
+    Indirect,           // (nnnn)
+    IndirectX,          // (zp,X)
+    IndirectY,          // (zp),Y
+    Relative,           // branch target
+    ZeroPageIndirect,   // (zp), 65C02 only
+    AbsoluteIndirectX,  // (nnnn,X), 65C02 JMP only
+    ZeroPageRelative,   // zp,target, 65C02 BBR/BBS only
 }
 
+/** 6502 opcodes by mnemonic and addressing mode, -1 if the mode doesn't exist */
+const M6502Opcodes: {[name: string]: number[]} = {
+    //      imp   acc   imm   zp    zpx   zpy   abs   absx  absy  ind   indx  indy  rel   zpi   aix   zpr
+    ADC:  [   -1,   -1, 0x69, 0x65, 0x75,   -1, 0x6D, 0x7D, 0x79,   -1, 0x61, 0x71,   -1,   -1,   -1,   -1 ],
+    AND:  [   -1,   -1, 0x29, 0x25, 0x35,   -1, 0x2D, 0x3D, 0x39,   -1, 0x21, 0x31,   -1,   -1,   -1,   -1 ],
+    ASL:  [   -1, 0x0A,   -1, 0x06, 0x16,   -1, 0x0E, 0x1E,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    BCC:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x90,   -1,   -1,   -1 ],
+    BCS:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xB0,   -1,   -1,   -1 ],
+    BEQ:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xF0,   -1,   -1,   -1 ],
+    BIT:  [   -1,   -1,   -1, 0x24,   -1,   -1, 0x2C,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    BMI:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x30,   -1,   -1,   -1 ],
+    BNE:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xD0,   -1,   -1,   -1 ],
+    BPL:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x10,   -1,   -1,   -1 ],
+    BRK:  [ 0x00,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    BVC:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x50,   -1,   -1,   -1 ],
+    BVS:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x70,   -1,   -1,   -1 ],
+    CLC:  [ 0x18,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    CLD:  [ 0xD8,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    CLI:  [ 0x58,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    CLV:  [ 0xB8,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    CMP:  [   -1,   -1, 0xC9, 0xC5, 0xD5,   -1, 0xCD, 0xDD, 0xD9,   -1, 0xC1, 0xD1,   -1,   -1,   -1,   -1 ],
+    CPX:  [   -1,   -1, 0xE0, 0xE4,   -1,   -1, 0xEC,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    CPY:  [   -1,   -1, 0xC0, 0xC4,   -1,   -1, 0xCC,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    DEC:  [   -1,   -1,   -1, 0xC6, 0xD6,   -1, 0xCE, 0xDE,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    DEX:  [ 0xCA,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    DEY:  [ 0x88,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    EOR:  [   -1,   -1, 0x49, 0x45, 0x55,   -1, 0x4D, 0x5D, 0x59,   -1, 0x41, 0x51,   -1,   -1,   -1,   -1 ],
+    INC:  [   -1,   -1,   -1, 0xE6, 0xF6,   -1, 0xEE, 0xFE,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    INX:  [ 0xE8,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    INY:  [ 0xC8,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    JMP:  [   -1,   -1,   -1,   -1,   -1,   -1, 0x4C,   -1,   -1, 0x6C,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    JSR:  [   -1,   -1,   -1,   -1,   -1,   -1, 0x20,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    LDA:  [   -1,   -1, 0xA9, 0xA5, 0xB5,   -1, 0xAD, 0xBD, 0xB9,   -1, 0xA1, 0xB1,   -1,   -1,   -1,   -1 ],
+    LDX:  [   -1,   -1, 0xA2, 0xA6,   -1, 0xB6, 0xAE,   -1, 0xBE,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    LDY:  [   -1,   -1, 0xA0, 0xA4, 0xB4,   -1, 0xAC, 0xBC,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    LSR:  [   -1, 0x4A,   -1, 0x46, 0x56,   -1, 0x4E, 0x5E,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    NOP:  [ 0xEA,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    ORA:  [   -1,   -1, 0x09, 0x05, 0x15,   -1, 0x0D, 0x1D, 0x19,   -1, 0x01, 0x11,   -1,   -1,   -1,   -1 ],
+    PHA:  [ 0x48,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    PHP:  [ 0x08,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    PLA:  [ 0x68,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    PLP:  [ 0x28,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    ROL:  [   -1, 0x2A,   -1, 0x26, 0x36,   -1, 0x2E, 0x3E,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    ROR:  [   -1, 0x6A,   -1, 0x66, 0x76,   -1, 0x6E, 0x7E,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RTI:  [ 0x40,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RTS:  [ 0x60,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SBC:  [   -1,   -1, 0xE9, 0xE5, 0xF5,   -1, 0xED, 0xFD, 0xF9,   -1, 0xE1, 0xF1,   -1,   -1,   -1,   -1 ],
+    SEC:  [ 0x38,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SED:  [ 0xF8,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SEI:  [ 0x78,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    STA:  [   -1,   -1,   -1, 0x85, 0x95,   -1, 0x8D, 0x9D, 0x99,   -1, 0x81, 0x91,   -1,   -1,   -1,   -1 ],
+    STX:  [   -1,   -1,   -1, 0x86,   -1, 0x96, 0x8E,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    STY:  [   -1,   -1,   -1, 0x84, 0x94,   -1, 0x8C,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TAX:  [ 0xAA,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TAY:  [ 0xA8,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TSX:  [ 0xBA,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TXA:  [ 0x8A,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TXS:  [ 0x9A,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TYA:  [ 0x98,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+};
+
+/** 65C02 opcodes, replaces and extends the 6502 opcodes */
+const M65C02Opcodes: {[name: string]: number[]} = Object.assign({}, M6502Opcodes, {
+    //      imp   acc   imm   zp    zpx   zpy   abs   absx  absy  ind   indx  indy  rel   zpi   aix   zpr
+    ADC:  [   -1,   -1, 0x69, 0x65, 0x75,   -1, 0x6D, 0x7D, 0x79,   -1, 0x61, 0x71,   -1, 0x72,   -1,   -1 ],
+    AND:  [   -1,   -1, 0x29, 0x25, 0x35,   -1, 0x2D, 0x3D, 0x39,   -1, 0x21, 0x31,   -1, 0x32,   -1,   -1 ],
+    BBR0: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x0F ],
+    BBR1: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x1F ],
+    BBR2: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x2F ],
+    BBR3: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x3F ],
+    BBR4: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x4F ],
+    BBR5: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x5F ],
+    BBR6: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x6F ],
+    BBR7: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x7F ],
+    BBS0: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x8F ],
+    BBS1: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x9F ],
+    BBS2: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xAF ],
+    BBS3: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xBF ],
+    BBS4: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xCF ],
+    BBS5: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xDF ],
+    BBS6: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xEF ],
+    BBS7: [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0xFF ],
+    BIT:  [   -1,   -1, 0x89, 0x24, 0x34,   -1, 0x2C, 0x3C,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    BRA:  [   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1, 0x80,   -1,   -1,   -1 ],
+    CMP:  [   -1,   -1, 0xC9, 0xC5, 0xD5,   -1, 0xCD, 0xDD, 0xD9,   -1, 0xC1, 0xD1,   -1, 0xD2,   -1,   -1 ],
+    DEC:  [   -1, 0x3A,   -1, 0xC6, 0xD6,   -1, 0xCE, 0xDE,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    EOR:  [   -1,   -1, 0x49, 0x45, 0x55,   -1, 0x4D, 0x5D, 0x59,   -1, 0x41, 0x51,   -1, 0x52,   -1,   -1 ],
+    INC:  [   -1, 0x1A,   -1, 0xE6, 0xF6,   -1, 0xEE, 0xFE,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    JMP:  [   -1,   -1,   -1,   -1,   -1,   -1, 0x4C,   -1,   -1, 0x6C,   -1,   -1,   -1,   -1, 0x7C,   -1 ],
+    LDA:  [   -1,   -1, 0xA9, 0xA5, 0xB5,   -1, 0xAD, 0xBD, 0xB9,   -1, 0xA1, 0xB1,   -1, 0xB2,   -1,   -1 ],
+    ORA:  [   -1,   -1, 0x09, 0x05, 0x15,   -1, 0x0D, 0x1D, 0x19,   -1, 0x01, 0x11,   -1, 0x12,   -1,   -1 ],
+    PHX:  [ 0xDA,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    PHY:  [ 0x5A,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    PLX:  [ 0xFA,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    PLY:  [ 0x7A,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB0: [   -1,   -1,   -1, 0x07,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB1: [   -1,   -1,   -1, 0x17,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB2: [   -1,   -1,   -1, 0x27,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB3: [   -1,   -1,   -1, 0x37,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB4: [   -1,   -1,   -1, 0x47,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB5: [   -1,   -1,   -1, 0x57,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB6: [   -1,   -1,   -1, 0x67,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    RMB7: [   -1,   -1,   -1, 0x77,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SBC:  [   -1,   -1, 0xE9, 0xE5, 0xF5,   -1, 0xED, 0xFD, 0xF9,   -1, 0xE1, 0xF1,   -1, 0xF2,   -1,   -1 ],
+    SMB0: [   -1,   -1,   -1, 0x87,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB1: [   -1,   -1,   -1, 0x97,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB2: [   -1,   -1,   -1, 0xA7,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB3: [   -1,   -1,   -1, 0xB7,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB4: [   -1,   -1,   -1, 0xC7,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB5: [   -1,   -1,   -1, 0xD7,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB6: [   -1,   -1,   -1, 0xE7,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SMB7: [   -1,   -1,   -1, 0xF7,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    STA:  [   -1,   -1,   -1, 0x85, 0x95,   -1, 0x8D, 0x9D, 0x99,   -1, 0x81, 0x91,   -1, 0x92,   -1,   -1 ],
+    STZ:  [   -1,   -1,   -1, 0x64, 0x74,   -1, 0x9C, 0x9E,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TRB:  [   -1,   -1,   -1, 0x14,   -1,   -1, 0x1C,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    TSB:  [   -1,   -1,   -1, 0x04,   -1,   -1, 0x0C,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+});
+
+/** 6510 stable illegal opcodes, in addition to the 6502 opcodes */
+const M6510Opcodes: {[name: string]: number[]} = Object.assign({}, M6502Opcodes, {
+    //      imp   acc   imm   zp    zpx   zpy   abs   absx  absy  ind   indx  indy  rel   zpi   aix   zpr
+    ALR:  [   -1,   -1, 0x4B,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    ANC:  [   -1,   -1, 0x0B,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    ARR:  [   -1,   -1, 0x6B,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    DCP:  [   -1,   -1,   -1, 0xC7, 0xD7,   -1, 0xCF, 0xDF, 0xDB,   -1, 0xC3, 0xD3,   -1,   -1,   -1,   -1 ],
+    ISC:  [   -1,   -1,   -1, 0xE7, 0xF7,   -1, 0xEF, 0xFF, 0xFB,   -1, 0xE3, 0xF3,   -1,   -1,   -1,   -1 ],
+    LAX:  [   -1,   -1,   -1, 0xA7,   -1, 0xB7, 0xAF,   -1, 0xBF,   -1, 0xA3, 0xB3,   -1,   -1,   -1,   -1 ],
+    RLA:  [   -1,   -1,   -1, 0x27, 0x37,   -1, 0x2F, 0x3F, 0x3B,   -1, 0x23, 0x33,   -1,   -1,   -1,   -1 ],
+    RRA:  [   -1,   -1,   -1, 0x67, 0x77,   -1, 0x6F, 0x7F, 0x7B,   -1, 0x63, 0x73,   -1,   -1,   -1,   -1 ],
+    SAX:  [   -1,   -1,   -1, 0x87,   -1, 0x97, 0x8F,   -1,   -1,   -1, 0x83,   -1,   -1,   -1,   -1,   -1 ],
+    SBX:  [   -1,   -1, 0xCB,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1,   -1 ],
+    SLO:  [   -1,   -1,   -1, 0x07, 0x17,   -1, 0x0F, 0x1F, 0x1B,   -1, 0x03, 0x13,   -1,   -1,   -1,   -1 ],
+    SRE:  [   -1,   -1,   -1, 0x47, 0x57,   -1, 0x4F, 0x5F, 0x5B,   -1, 0x43, 0x53,   -1,   -1,   -1,   -1 ],
+});
+
+/** 6502 opcode tables by CPU */
+const CPUOpcodes: {[cpu: number]: {[name: string]: number[]}} = {
+    [CPUType.M6502]: M6502Opcodes,
+    [CPUType.M65C02]: M65C02Opcodes,
+    [CPUType.M6510]: M6510Opcodes,
+};
+
+/** 8080 operand formats */
+enum I8080Format {
+    None,       // no operand
+    Src,        // r in bits 0..2
+    Dst,        // r in bits 3..5
+    Move,       // r,r
+    MoveImm,    // r,n
+    Pair,       // rp in bits 4..5
+    PairImm,    // rp,nn
+    Imm8,       // n
+    Imm16,      // nn
+    Rst,        // 0..7
+}
+
+/** 8080 operand formats and base opcodes by mnemonic */
+const I8080Ops: {[name: string]: [I8080Format, number]} = {
+    ACI:   [ I8080Format.Imm8,    0xCE ],
+    ADC:   [ I8080Format.Src,     0x88 ],
+    ADD:   [ I8080Format.Src,     0x80 ],
+    ADI:   [ I8080Format.Imm8,    0xC6 ],
+    ANA:   [ I8080Format.Src,     0xA0 ],
+    ANI:   [ I8080Format.Imm8,    0xE6 ],
+    CALL:  [ I8080Format.Imm16,   0xCD ],
+    CC:    [ I8080Format.Imm16,   0xDC ],
+    CM:    [ I8080Format.Imm16,   0xFC ],
+    CMA:   [ I8080Format.None,    0x2F ],
+    CMC:   [ I8080Format.None,    0x3F ],
+    CMP:   [ I8080Format.Src,     0xB8 ],
+    CNC:   [ I8080Format.Imm16,   0xD4 ],
+    CNZ:   [ I8080Format.Imm16,   0xC4 ],
+    CP:    [ I8080Format.Imm16,   0xF4 ],
+    CPE:   [ I8080Format.Imm16,   0xEC ],
+    CPI:   [ I8080Format.Imm8,    0xFE ],
+    CPO:   [ I8080Format.Imm16,   0xE4 ],
+    CZ:    [ I8080Format.Imm16,   0xCC ],
+    DAA:   [ I8080Format.None,    0x27 ],
+    DAD:   [ I8080Format.Pair,    0x09 ],
+    DCR:   [ I8080Format.Dst,     0x05 ],
+    DCX:   [ I8080Format.Pair,    0x0B ],
+    DI:    [ I8080Format.None,    0xF3 ],
+    EI:    [ I8080Format.None,    0xFB ],
+    HLT:   [ I8080Format.None,    0x76 ],
+    IN:    [ I8080Format.Imm8,    0xDB ],
+    INR:   [ I8080Format.Dst,     0x04 ],
+    INX:   [ I8080Format.Pair,    0x03 ],
+    JC:    [ I8080Format.Imm16,   0xDA ],
+    JM:    [ I8080Format.Imm16,   0xFA ],
+    JMP:   [ I8080Format.Imm16,   0xC3 ],
+    JNC:   [ I8080Format.Imm16,   0xD2 ],
+    JNZ:   [ I8080Format.Imm16,   0xC2 ],
+    JP:    [ I8080Format.Imm16,   0xF2 ],
+    JPE:   [ I8080Format.Imm16,   0xEA ],
+    JPO:   [ I8080Format.Imm16,   0xE2 ],
+    JZ:    [ I8080Format.Imm16,   0xCA ],
+    LDA:   [ I8080Format.Imm16,   0x3A ],
+    LDAX:  [ I8080Format.Pair,    0x0A ],
+    LHLD:  [ I8080Format.Imm16,   0x2A ],
+    LXI:   [ I8080Format.PairImm, 0x01 ],
+    MOV:   [ I8080Format.Move,    0x40 ],
+    MVI:   [ I8080Format.MoveImm, 0x06 ],
+    NOP:   [ I8080Format.None,    0x00 ],
+    ORA:   [ I8080Format.Src,     0xB0 ],
+    ORI:   [ I8080Format.Imm8,    0xF6 ],
+    OUT:   [ I8080Format.Imm8,    0xD3 ],
+    PCHL:  [ I8080Format.None,    0xE9 ],
+    POP:   [ I8080Format.Pair,    0xC1 ],
+    PUSH:  [ I8080Format.Pair,    0xC5 ],
+    RAL:   [ I8080Format.None,    0x17 ],
+    RAR:   [ I8080Format.None,    0x1F ],
+    RC:    [ I8080Format.None,    0xD8 ],
+    RET:   [ I8080Format.None,    0xC9 ],
+    RLC:   [ I8080Format.None,    0x07 ],
+    RM:    [ I8080Format.None,    0xF8 ],
+    RNC:   [ I8080Format.None,    0xD0 ],
+    RNZ:   [ I8080Format.None,    0xC0 ],
+    RP:    [ I8080Format.None,    0xF0 ],
+    RPE:   [ I8080Format.None,    0xE8 ],
+    RPO:   [ I8080Format.None,    0xE0 ],
+    RRC:   [ I8080Format.None,    0x0F ],
+    RST:   [ I8080Format.Rst,     0xC7 ],
+    RZ:    [ I8080Format.None,    0xC8 ],
+    SBB:   [ I8080Format.Src,     0x98 ],
+    SBI:   [ I8080Format.Imm8,    0xDE ],
+    SHLD:  [ I8080Format.Imm16,   0x22 ],
+    SPHL:  [ I8080Format.None,    0xF9 ],
+    STA:   [ I8080Format.Imm16,   0x32 ],
+    STAX:  [ I8080Format.Pair,    0x02 ],
+    STC:   [ I8080Format.None,    0x37 ],
+    SUB:   [ I8080Format.Src,     0x90 ],
+    SUI:   [ I8080Format.Imm8,    0xD6 ],
+    XCHG:  [ I8080Format.None,    0xEB ],
+    XRA:   [ I8080Format.Src,     0xA8 ],
+    XRI:   [ I8080Format.Imm8,    0xEE ],
+    XTHL:  [ I8080Format.None,    0xE3 ],
+};
+
+/** a character set translation table, maps character codes to bytes */
+interface ICharset {
+    [code: number]: number;
+}
+
+/** map a range of characters to consecutive byte values */
+function charset_map(charset: ICharset, first: string, last: string, val: number) {
+    for (let c = first.charCodeAt(0); c <= last.charCodeAt(0); c++) {
+        charset[c] = val++;
+    }
+}
+
+/** 
+ * return a new builtin charset by name, or null if no such charset exists,
+ * characters without mapping are passed through if they fit into a byte
+ */
+function BuiltinCharset(name: string): ICharset {
+    const charset: ICharset = {};
+    switch (name) {
+        case "ASCII":
+            break;
+        case "PETSCII":
+            // C64 PETSCII, lower-case source letters are the default upper-case glyphs
+            charset_map(charset, "a", "z", 0x41);
+            charset_map(charset, "A", "Z", 0xC1);
+            charset_map(charset, "\n", "\n", 0x0D);
+            charset_map(charset, "\u00A3", "\u00A3", 0x5C);   // pound sign
+            charset_map(charset, "\u2191", "\u2191", 0x5E);   // arrow up
+            charset_map(charset, "\u2190", "\u2190", 0x5F);   // arrow left
+            break;
+        case "SCREEN":
+            // C64 screen codes, same letter case rules as PETSCII
+            charset_map(charset, "@", "@", 0x00);
+            charset_map(charset, "a", "z", 0x01);
+            charset_map(charset, "[", "[", 0x1B);
+            charset_map(charset, "\u00A3", "\u00A3", 0x1C);
+            charset_map(charset, "]", "]", 0x1D);
+            charset_map(charset, "\u2191", "\u2191", 0x1E);
+            charset_map(charset, "\u2190", "\u2190", 0x1F);
+            charset_map(charset, "A", "Z", 0x41);
+            break;
+        case "KC85":
+            // KC85 is ASCII with German umlauts at the DIN 66003 positions
+            charset_map(charset, "\u00A7", "\u00A7", 0x40);   // paragraph sign
+            charset_map(charset, "\u00C4", "\u00C4", 0x5B);
+            charset_map(charset, "\u00D6", "\u00D6", 0x5C);
+            charset_map(charset, "\u00DC", "\u00DC", 0x5D);
+            charset_map(charset, "\u00E4", "\u00E4", 0x7B);
+            charset_map(charset, "\u00F6", "\u00F6", 0x7C);
+            charset_map(charset, "\u00FC", "\u00FC", 0x7D);
+            charset_map(charset, "\u00DF", "\u00DF", 0x7E);
+            break;
+        default:
+            return null;
+    }
+    return charset;
+}
+
+/** how a symbol was defined */
+export enum SymbolKind {
+    Label,      // label: 
+    Const,      // CONST name,expr or name EQU expr or name = expr
+    Var,        // VAR name,expr (can be reassigned)
+}
+
+/** max number of assembler passes until symbols must be resolved */
+const MaxAssemblerPasses = 8;
+
 /** the Assembler converts a stream of SyntaxItem objects into byte ranges */
 export class Assembler {
     private static z80R8bits(r8: string): number {
@@ -682,6 +2718,8 @@ export class Assembler {
             case "H": return 0b100;
             case "L": return 0b101;
             case "A": return 0b111;
+            case "IXH": case "IYH": return 0b100;
+            case "IXL": case "IYL": return 0b101;
             default:
                 fatal("invalid z80 8-bit register name!");
                 return 0;
@@ -695,23 +2733,84 @@ export class Assembler {
             case "HL": return 0b10;
             case "SP": return 0b11;
             default:
-                fatal("invalid z80 16-bit register name!");
+                fatal("invalid z80 16-bit register name!");
+                return 0;
+        }
+    }
+
+    private static z80ALUbits(alu: string): number {
+        switch (alu) {
+            case "ADD": return 0b000;
+            case "ADC": return 0b001;
+            case "SUB": return 0b010;
+            case "SBC": return 0b011;
+            case "AND": return 0b100;
+            case "XOR": return 0b101;
+            case "OR":  return 0b110;
+            case "CP":  return 0b111;
+            default:
+                fatal("invalid z80 alu op name!");
+                return 0;
+        }
+    }
+
+    private static z80ROTbits(rot: string): number {
+        switch (rot) {
+            case "RLC": return 0b000;
+            case "RRC": return 0b001;
+            case "RL":  return 0b010;
+            case "RR":  return 0b011;
+            case "SLA": return 0b100;
+            case "SRA": return 0b101;
+            case "SLL": case "SL1": return 0b110;
+            case "SRL": return 0b111;
+            default:
+                fatal("invalid z80 rotate/shift op name!");
+                return 0;
+        }
+    }
+
+    private static z80CCbits(cc: string): number {
+        switch (cc) {
+            case "NZ": return 0b000;
+            case "Z":  return 0b001;
+            case "NC": return 0b010;
+            case "C":  return 0b011;
+            case "PO": return 0b100;
+            case "PE": return 0b101;
+            case "P":  return 0b110;
+            case "M":  return 0b111;
+            default:
+                fatal("invalid z80 condition code!");
+                return 0;
+        }
+    }
+
+    private static i8080Rbits(r: string): number {
+        switch (r) {
+            case "B": return 0b000;
+            case "C": return 0b001;
+            case "D": return 0b010;
+            case "E": return 0b011;
+            case "H": return 0b100;
+            case "L": return 0b101;
+            case "M": return 0b110;
+            case "A": return 0b111;
+            default:
+                fatal("invalid 8080 register name!");
                 return 0;
         }
     }
 
-    private static z80ALUbits(alu: string): number {
-        switch (alu) {
-            case "ADD": return 0b000;
-            case "ADC": return 0b001;
-            case "SUB": return 0b010;
-            case "SBC": return 0b011;
-            case "AND": return 0b100;
-            case "XOR": return 0b101;
-            case "OR":  return 0b110;
-            case "CP":  return 0b111;
+    private static i8080RPbits(rp: string): number {
+        switch (rp) {
+            case "B":   return 0b00;
+            case "D":   return 0b01;
+            case "H":   return 0b10;
+            case "SP":  return 0b11;
+            case "PSW": return 0b11;
             default:
-                fatal("invalid z80 alu op name!");
+                fatal("invalid 8080 register pair name!");
                 return 0;
         }
     }
@@ -721,139 +2820,738 @@ export class Assembler {
     public syntaxItemIndex: number = 0;
     public syntaxItems: SyntaxItem[];
     public byteRanges: ByteRange[];
-    public errors: Error[] = new Array<Error>();
+    public symbols: {[name: string]: number} = {};
+    public pass: number = 0;
+    public diagnostics: Diagnostic[] = new Array<Diagnostic>();
+    private defined: {[name: string]: SymbolKind} = {};
+    private variables: {[name: string]: boolean} = {};
+    private symbolsChanged: boolean = false;
+    private undocumented: boolean = false;
+    private charsets: {[name: string]: ICharset} = {};
+    private charsetName: string = "ASCII";
 
+    /**
+     * Assemble the syntax items into byte ranges. This runs assembler
+     * passes until all symbol values are stable, only the errors
+     * of the last pass are kept.
+     */
     public Assemble(syntaxItems: SyntaxItem[]): ByteRange[] {
         this.syntaxItems = syntaxItems;
+        this.symbols = {};
+        this.variables = {};
+        this.pass = 0;
+        do {
+            this.pass++;
+            this.assemblePass();
+        }
+        while (this.symbolsChanged && (this.pass < MaxAssemblerPasses));
+        if (this.symbolsChanged) {
+            this.diagnostics.push(new Diagnostic(Severity.Error, ErrorCode.SymbolsNotStable,
+                `symbols not stable after ${ this.pass } passes`));
+        }
+        return this.byteRanges;
+    }
+
+    public HasErrors(): boolean {
+        return has_errors(this.diagnostics);
+    }
+
+    /** return the symbols with their values and kinds, sorted by name */
+    public SymbolTable(): AsmSymbol[] {
+        return Object.keys(this.defined).sort().map((name) =>
+            new AsmSymbol(name, this.symbols[name], this.defined[name]));
+    }
+
+    private assemblePass() {
+        this.addr = 0;
+        this.cpu = CPUType.None;
+        this.undocumented = false;
         this.syntaxItemIndex = 0;
         this.byteRanges = new Array<ByteRange>();
-        this.errors = new Array<Error>();
+        this.diagnostics = new Array<Diagnostic>();
+        this.defined = {};
+        this.symbolsChanged = false;
+        this.charsets = { ASCII: BuiltinCharset("ASCII") };
+        this.charsetName = "ASCII";
         let outp = new ByteRange();
         while (true) {
-            let inp = this.next_item();
+            const inp = this.next_item();
             if (inp.kind === SyntaxItemKind.EOF) {
                 break;
             }
+            else if (inp.kind === SyntaxItemKind.EOL) {
+                this.skip_line();
+                continue;
+            }
             outp.line = inp.line;
+            outp.col = inp.col;
+            outp.len = inp.len;
+            outp.file = inp.file;
+            outp.expansion = inp.expansion;
             outp.addr = this.addr;
-            if (inp.kind === SyntaxItemKind.Keyword) {
-                switch (inp.str) {
-                    case "ORG":
-                        inp = this.next_item();
-                        this.addr = inp.num;
-                        outp.discard = true;
-                        break;
-                    case "Z80":
-                        this.cpu = CPUType.Z80;
-                        outp.discard = true;
+            const numDiagnostics = this.diagnostics.length;
+            try {
+                this.assemble_item(inp, outp);
+            }
+            catch (e) {
+                if (!(e instanceof InternalError)) {
+                    throw e;
+                }
+                this.error(outp, ErrorCode.Internal, `internal error: ${ e.message }`);
+            }
+            if (this.diagnostics.length > numDiagnostics) {
+                // continue after the statement with the error
+                this.skip_line();
+            }
+            else if (inp.kind !== SyntaxItemKind.Label) {
+                // one statement per line, a label can be followed by a statement
+                this.expect_line_end(outp);
+            }
+            if (outp.discard) {
+                outp = new ByteRange();
+            }
+            else if (outp.ready) {
+                this.byteRanges.push(outp);
+                this.addr += outp.bytes.length;
+                outp = new ByteRange();
+            }
+        }
+    }
+
+    /** assemble the statement which starts with the syntax item inp */
+    private assemble_item(inp: SyntaxItem, outp: ByteRange) {
+        if (inp.kind === SyntaxItemKind.Keyword) {
+            switch (inp.str) {
+                case "ORG":
+                    {
+                        const addr = this.next_operand(outp);
+                        if (addr.kind !== SyntaxItemKind.Number) {
+                            this.error(outp, ErrorCode.InvalidOperand, `invalid ORG address: ${ addr.str }`, addr);
+                        }
+                        else if (this.expect_16bit(outp, addr)) {
+                            this.addr = addr.num;
+                        }
+                    }
+                    outp.discard = true;
+                    break;
+                case "Z80": case "M6502": case "M65C02": case "M6510": case "I8080": case "SM83":
+                    this.cpu = CPUKeywords[inp.str];
+                    outp.discard = true;
+                    break;
+                case "UNDOC":
+                    this.undocumented = true;
+                    outp.discard = true;
+                    break;
+                case "DB":
+                    this.asmData(outp, false);
+                    break;
+                case "DW":
+                    this.asmData(outp, true);
+                    break;
+                case "CHARSET":
+                    this.asmCharset(outp);
+                    outp.discard = true;
+                    break;
+                case "CHARMAP":
+                    this.asmCharmap(outp);
+                    outp.discard = true;
+                    break;
+                case "CONST":
+                    this.asmConst(outp, SymbolKind.Const);
+                    outp.discard = true;
+                    break;
+                case "VAR":
+                    this.asmConst(outp, SymbolKind.Var);
+                    outp.discard = true;
+                    break;
+                case "EQU":
+                    this.error(outp, ErrorCode.SyntaxError, "EQU without symbol name");
+                    break;
+                case "INCBIN":
+                    this.asmIncbin(outp);
+                    break;
+                case "END": 
+                    this.error(outp, ErrorCode.NotImplemented, `${ inp.str }: NOT IMPLEMENTED YET!`);
+                    break;
+            }
+        }
+        else if (inp.kind === SyntaxItemKind.Label) {
+            outp.label = inp.str;
+            this.define_symbol(outp, inp.str, this.addr, SymbolKind.Label);
+        }
+        else if (inp.kind === SyntaxItemKind.Name) {
+            // NAME EQU expr or NAME = expr
+            if (this.next_item().str === "EQU") {
+                this.asmDefine(outp, inp.str, SymbolKind.Const);
+            }
+            else {
+                this.error(outp, ErrorCode.SyntaxError, `Syntax error: ${inp.str}`);
+            }
+            outp.discard = true;
+        }
+        else if (!this.expect_cpu_op(outp, inp)) {
+            return;
+        }
+        else if ((inp.kind === SyntaxItemKind.Z80Op) && (this.cpu === CPUType.SM83)) {
+            this.asmSM83Op(inp, outp);
+        }
+        else if (inp.kind === SyntaxItemKind.Z80Op) {
+            this.asmZ80Op(inp, outp);
+        }
+        else if (inp.kind === SyntaxItemKind.I8080Op) {
+            this.asmI8080Op(inp, outp);
+        }
+        else if (inp.kind === SyntaxItemKind.M6502Op) {
+            this.asmM6502Op(inp, outp);
+        }
+        else {
+            this.error(outp, ErrorCode.SyntaxError, `Syntax error: ${inp.str}`);
+        }
+    }
+
+    /** DB or DW with a comma-separated list of values (and strings for DB) */
+    private asmData(outp: ByteRange, words: boolean) {
+        outp.ready = true;
+        outp.bytes = [];
+        while (true) {
+            const item = this.next_operand(outp);
+            if ((item.kind === SyntaxItemKind.String) && !words) {
+                for (let i = 0; i < item.str.length; i++) {
+                    outp.bytes.push(this.translate_char(outp, item.str.charCodeAt(i), item));
+                }
+            }
+            else if (item.kind === SyntaxItemKind.Number) {
+                if (words) {
+                    if (this.expect_16bit(outp, item)) {
+                        outp.bytes.push(item.lo, item.hi);
+                    }
+                }
+                else if (this.expect_8bit(outp, item)) {
+                    outp.bytes.push(item.lo);
+                }
+            }
+            else {
+                this.error(outp, ErrorCode.InvalidOperand,
+                    `invalid ${ words ? "DW" : "DB" } value: ${ item.str }`, item);
+            }
+            if (this.peek_item().kind !== SyntaxItemKind.Comma) {
+                break;
+            }
+            this.skip_item();
+        }
+    }
+
+    /** CONST name,expr or VAR name,expr */
+    private asmConst(outp: ByteRange, kind: SymbolKind) {
+        const name = this.next_name(outp);
+        const c = this.next_item();
+        if (name === null) {
+            return;
+        }
+        else if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+            return;
+        }
+        this.asmDefine(outp, name, kind);
+    }
+
+    /** define a constant or variable from the next operand value */
+    private asmDefine(outp: ByteRange, name: string, kind: SymbolKind) {
+        const val = this.next_operand(outp);
+        if (val.kind === SyntaxItemKind.Number) {
+            this.define_symbol(outp, name, val.num, kind);
+        }
+        else {
+            this.error(outp, ErrorCode.SyntaxError, `expected value for ${ name }: ${ val.str }`, val);
+        }
+    }
+
+    /** INCBIN "file"[,offset[,length]] */
+    private asmIncbin(outp: ByteRange) {
+        const file = this.next_item();
+        if ((file.kind !== SyntaxItemKind.String) || (file.data === null)) {
+            this.error(outp, ErrorCode.ExpectedFileName, "expected file name after INCBIN");
+            return;
+        }
+        let offset = 0;
+        let length = file.data.length;
+        if (this.peek_item().kind === SyntaxItemKind.Comma) {
+            this.skip_item();
+            const off = this.next_operand(outp);
+            if (off.kind !== SyntaxItemKind.Number) {
+                this.error(outp, ErrorCode.InvalidOperand, `invalid INCBIN offset: ${ off.str }`, off);
+                return;
+            }
+            offset = off.num;
+            length = file.data.length - offset;
+            if (this.peek_item().kind === SyntaxItemKind.Comma) {
+                this.skip_item();
+                const len = this.next_operand(outp);
+                if (len.kind !== SyntaxItemKind.Number) {
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid INCBIN length: ${ len.str }`, len);
+                    return;
+                }
+                length = len.num;
+            }
+        }
+        if ((offset < 0) || (offset > file.data.length)) {
+            this.error(outp, ErrorCode.ValueOutOfRange, `INCBIN offset out of range: ${ offset }`);
+        }
+        else if ((length < 0) || ((offset + length) > file.data.length)) {
+            this.error(outp, ErrorCode.ValueOutOfRange, `INCBIN length out of range: ${ length }`);
+        }
+        else {
+            outp.bytes = Array.from(file.data.subarray(offset, offset + length));
+            outp.ready = true;
+        }
+    }
+
+    /** CHARSET name[,NEW], select a builtin or custom charset, NEW creates an empty custom charset */
+    private asmCharset(outp: ByteRange) {
+        const at = this.peek_item();
+        const name = this.next_name(outp);
+        if (name === null) {
+            return;
+        }
+        if (this.peek_item().kind === SyntaxItemKind.Comma) {
+            this.skip_item();
+            const opt = this.peek_item();
+            if (this.next_name(outp) === null) {
+                return;
+            }
+            if (opt.expr.sym !== "NEW") {
+                this.error(outp, ErrorCode.SyntaxError, `expected NEW after CHARSET name: ${ opt.str }`, opt);
+                return;
+            }
+            if ((name in this.charsets) || (BuiltinCharset(name) !== null)) {
+                this.error(outp, ErrorCode.InvalidCharset, `charset already defined: ${ name }`, at);
+                return;
+            }
+            this.charsets[name] = {};
+        }
+        else if (!(name in this.charsets)) {
+            const charset = BuiltinCharset(name);
+            if (charset === null) {
+                this.error(outp, ErrorCode.InvalidCharset, `unknown charset: ${ name }`, at);
+                return;
+            }
+            this.charsets[name] = charset;
+        }
+        this.charsetName = name;
+    }
+
+    /** CHARMAP "chars",val, map characters to consecutive values in active charset */
+    private asmCharmap(outp: ByteRange) {
+        const chars = this.next_item();
+        const c = this.next_item();
+        const val = this.next_operand(outp);
+        if (chars.kind !== SyntaxItemKind.String) {
+            this.error(outp, ErrorCode.InvalidCharset, `expected string in CHARMAP: ${ chars.str }`, chars);
+        }
+        else if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if (val.kind !== SyntaxItemKind.Number) {
+            this.error(outp, ErrorCode.InvalidCharset, `expected value in CHARMAP: ${ val.str }`, val);
+        }
+        else if (this.expect_8bit(outp, val)) {
+            const charset = this.charsets[this.charsetName];
+            for (let i = 0; i < chars.str.length; i++) {
+                const byte = val.num + i;
+                if (!is_8bit(byte)) {
+                    this.error(outp, ErrorCode.ValueOutOfRange, "8-bit overflow");
+                    break;
+                }
+                charset[chars.str.charCodeAt(i)] = byte & 0xFF;
+            }
+        }
+    }
+
+    private asmZ80Op(inp: SyntaxItem, outp: ByteRange) {
+        outp.ready = true;
+        switch (inp.str) {
+            // simple ops without operands
+            case "NOP":     outp.bytes = [ 0x00 ]; break;
+            case "EXX":     outp.bytes = [ 0xD9 ]; break;
+            case "LDI":     outp.bytes = [ 0xED, 0xA0 ]; break;
+            case "LDIR":    outp.bytes = [ 0xED, 0xB0 ]; break;
+            case "LDD":     outp.bytes = [ 0xED, 0xA8 ]; break;
+            case "LDDR":    outp.bytes = [ 0xED, 0xB8 ]; break;
+            case "CPI":     outp.bytes = [ 0xED, 0xA1 ]; break;
+            case "CPIR":    outp.bytes = [ 0xED, 0xB1 ]; break;
+            case "CPD":     outp.bytes = [ 0xED, 0xA9 ]; break;
+            case "CPDR":    outp.bytes = [ 0xED, 0xB9 ]; break;
+            case "DAA":     outp.bytes = [ 0x27 ]; break;
+            case "CPL":     outp.bytes = [ 0x2F ]; break;
+            case "NEG":     outp.bytes = [ 0xED, 0x44 ]; break;
+            case "CCF":     outp.bytes = [ 0x3F ]; break;
+            case "SCF":     outp.bytes = [ 0x37 ]; break;
+            case "HALT":    outp.bytes = [ 0x76 ]; break;
+            case "DI":      outp.bytes = [ 0xF3 ]; break;
+            case "EI":      outp.bytes = [ 0xFB ]; break;
+            case "RLCA":    outp.bytes = [ 0x07 ]; break;
+            case "RLA":     outp.bytes = [ 0x17 ]; break;
+            case "RRCA":    outp.bytes = [ 0x0F ]; break;
+            case "RRA":     outp.bytes = [ 0x1F ]; break;
+            case "RLD":     outp.bytes = [ 0xED, 0x6F ]; break;
+            case "RRD":     outp.bytes = [ 0xED, 0x67 ]; break;
+            case "RETI":    outp.bytes = [ 0xED, 0x4D ]; break;
+            case "RETN":    outp.bytes = [ 0xED, 0x45 ]; break;
+            case "INI":     outp.bytes = [ 0xED, 0xA2 ]; break;
+            case "INIR":    outp.bytes = [ 0xED, 0xB2 ]; break;
+            case "IND":     outp.bytes = [ 0xED, 0xAA ]; break;
+            case "INDR":    outp.bytes = [ 0xED, 0xBA ]; break;
+            case "OUTI":    outp.bytes = [ 0xED, 0xA3 ]; break;
+            case "OTIR":    outp.bytes = [ 0xED, 0xB3 ]; break;
+            case "OUTD":    outp.bytes = [ 0xED, 0xAB ]; break;
+            case "OTDR":    outp.bytes = [ 0xED, 0xBB ]; break;
+            case "LD":
+                this.asmZ80LD(outp);
+                break;
+            case "ADD": case "ADC": case "SUB": case "SBC":
+            case "AND": case "XOR": case "OR": case "CP":
+                this.asmZ80ALU(inp.str, outp);
+                break;
+            case "JP": case "JR": case "CALL": case "DJNZ":
+                this.asmZ80Jump(inp.str, outp);
+                break;
+            case "RET":
+                // RET or RET cc
+                if (this.peek_item().kind === SyntaxItemKind.Z80Cond) {
+                    const ccbits = Assembler.z80CCbits(this.next_item().str);
+                    outp.bytes = [ 0b11000000 | ccbits << 3 ];
+                }
+                else {
+                    outp.bytes = [ 0xC9 ];
+                }
+                break;
+            case "PUSH": case "POP":
+                this.asmZ80PushPop(inp.str, outp);
+                break;
+            case "EX":
+                this.asmZ80EX(outp);
+                break;
+            case "INC": case "DEC":
+                this.asmZ80IncDec(inp.str, outp);
+                break;
+            case "RLC": case "RRC": case "RL": case "RR":
+            case "SLA": case "SRA": case "SRL":
+                this.asmZ80CB(inp.str, Assembler.z80ROTbits(inp.str) << 3, outp);
+                break;
+            case "SLL": case "SL1":
+                this.asmZ80CB(inp.str, Assembler.z80ROTbits(inp.str) << 3, outp);
+                if (!outp.discard) {
+                    this.expect_undocumented(outp, inp.str);
+                }
+                break;
+            case "BIT": case "RES": case "SET":
+                this.asmZ80Bit(inp.str, outp);
+                break;
+            case "IN":
+                this.asmZ80IN(outp);
+                break;
+            case "OUT":
+                this.asmZ80OUT(outp);
+                break;
+            case "IM":
+                {
+                    const m = this.next_operand(outp);
+                    if ((m.kind === SyntaxItemKind.Number) && (m.num >= 0) && (m.num <= 2)) {
+                        outp.bytes = [ 0xED, [ 0x46, 0x56, 0x5E ][m.num] ];
+                    }
+                    else {
+                        this.error(outp, ErrorCode.ValueOutOfRange,
+                            `invalid interrupt mode (must be 0, 1 or 2): ${m.str}`, m);
+                    }
+                }
+                break;
+            case "RST":
+                {
+                    const p = this.next_operand(outp);
+                    if ((p.kind === SyntaxItemKind.Number) && ((p.num & ~0x38) === 0)) {
+                        outp.bytes = [ 0b11000111 | p.num ];
+                    }
+                    else {
+                        this.error(outp, ErrorCode.ValueOutOfRange,
+                            `invalid RST target (must be $00,$08,..,$38): ${p.str}`, p);
+                    }
+                }
+                break;
+            default:
+                this.error(outp, ErrorCode.InvalidInstruction, `invalid Z80 instruction: ${inp.str}`);
+                break;
+        }
+    }
+
+    private asmZ80Jump(op: string, outp: ByteRange) {
+        // JP/JR/CALL [cc,]nn, DJNZ nn, JP (HL/IX/IY)
+        let cc: SyntaxItem = null;
+        if (this.peek_item().kind === SyntaxItemKind.Z80Cond) {
+            cc = this.next_item();
+            if (this.next_item().kind !== SyntaxItemKind.Comma) {
+                this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+                return;
+            }
+        }
+        const ccbits = (cc !== null) ? Assembler.z80CCbits(cc.str) : 0;
+        const t = this.next_operand(outp);
+        if ((op === "JP") && (t.kind === SyntaxItemKind.Z80IndR16) && (cc === null)) {
+            // JP (HL), JP (IX), JP (IY)
+            switch (t.str) {
+                case "HL": outp.bytes = [ 0xE9 ]; break;
+                case "IX": case "IY": outp.bytes = [ t.prefix, 0xE9 ]; break;
+                default: this.error(outp, ErrorCode.InvalidOperand, `invalid JP target: (${t.str})`, t); break;
+            }
+        }
+        else if (t.kind !== SyntaxItemKind.Number) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} target: ${t.str}`, t);
+        }
+        else if ((op === "JP") || (op === "CALL")) {
+            if (this.expect_16bit(outp, t)) {
+                if (cc !== null) {
+                    const opbits = (op === "JP") ? 0b11000010 : 0b11000100;
+                    outp.bytes = [ opbits | ccbits << 3, t.lo, t.hi ];
+                }
+                else {
+                    outp.bytes = [ (op === "JP") ? 0xC3 : 0xCD, t.lo, t.hi ];
+                }
+            }
+        }
+        else if ((cc !== null) && (ccbits > 3)) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid condition for ${op}: ${cc.str}`, cc);
+        }
+        else {
+            // JR [cc,]e and DJNZ e, the displacement is relative to the next instruction
+            const d = t.num - (outp.addr + 2);
+            if (op === "DJNZ") {
+                outp.bytes = [ 0x10, d & 0xFF ];
+            }
+            else if (cc !== null) {
+                outp.bytes = [ 0b00100000 | ccbits << 3, d & 0xFF ];
+            }
+            else {
+                outp.bytes = [ 0x18, d & 0xFF ];
+            }
+            if ((d < -128) || (d > 127)) {
+                // keep the bytes, so that addresses stay intact
+                this.report(outp, ErrorCode.BranchOutOfRange, `relative jump target out of range: ${d}`, t);
+            }
+        }
+    }
+
+    private asmZ80PushPop(op: string, outp: ByteRange) {
+        // PUSH/POP BC/DE/HL/AF/IX/IY
+        const r = this.next_operand(outp);
+        const opbits = (op === "PUSH") ? 0b11000101 : 0b11000001;
+        if (r.kind !== SyntaxItemKind.Z80R16) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} operand: ${r.str}`, r);
+            return;
+        }
+        switch (r.str) {
+            case "BC": case "DE": case "HL":
+                outp.bytes = [ opbits | Assembler.z80R16bits(r.str) << 4 ];
+                break;
+            case "AF":
+                outp.bytes = [ opbits | 0b11 << 4 ];
+                break;
+            case "IX": case "IY":
+                outp.bytes = [ r.prefix, opbits | 0b10 << 4 ];
+                break;
+            default:
+                this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} operand: ${r.str}`, r);
+                break;
+        }
+    }
+
+    private asmZ80EX(outp: ByteRange) {
+        // EX AF,AF' EX DE,HL EX (SP),HL/IX/IY
+        const l = this.next_operand(outp);
+        const c = this.next_item();
+        const r = this.next_operand(outp);
+        if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if ((l.str === "AF") && (r.str === "AF'")) {
+            outp.bytes = [ 0x08 ];
+        }
+        else if ((l.str === "DE") && (r.str === "HL") && (r.kind === SyntaxItemKind.Z80R16)) {
+            outp.bytes = [ 0xEB ];
+        }
+        else if ((l.kind === SyntaxItemKind.Z80IndR16) && (l.str === "SP") && (r.kind === SyntaxItemKind.Z80R16)) {
+            switch (r.str) {
+                case "HL": outp.bytes = [ 0xE3 ]; break;
+                case "IX": case "IY": outp.bytes = [ r.prefix, 0xE3 ]; break;
+                default: this.error(outp, ErrorCode.InvalidOperand, `invalid EX (SP),${r.str}`, r); break;
+            }
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid EX ${l.str},${r.str}`);
+        }
+    }
+
+    private asmZ80IncDec(op: string, outp: ByteRange) {
+        // INC/DEC r, rr, (HL), (IX/IY+d)
+        const r = this.next_operand(outp);
+        const dec = (op === "DEC") ? 1 : 0;
+        switch (r.kind) {
+            case SyntaxItemKind.Z80R8:
+                outp.bytes = [ 0b00000100 | Assembler.z80R8bits(r.str) << 3 | dec ];
+                break;
+            case SyntaxItemKind.Z80R8X:
+                if (this.expect_undocumented(outp, `${op} ${r.str}`)) {
+                    outp.bytes = [ r.prefix, 0b00000100 | Assembler.z80R8bits(r.str) << 3 | dec ];
+                }
+                break;
+            case SyntaxItemKind.Z80R16:
+                switch (r.str) {
+                    case "BC": case "DE": case "HL": case "SP":
+                        outp.bytes = [ 0b00000011 | Assembler.z80R16bits(r.str) << 4 | dec << 3 ];
                         break;
-                    case "M6502":
-                        this.cpu = CPUType.M6502;
-                        outp.discard = true;
+                    case "IX": case "IY":
+                        outp.bytes = [ r.prefix, 0b00100011 | dec << 3 ];
                         break;
-                    case "INCLUDE":
-                    case "INCBIN":
-                    case "DB":
-                    case "DW":
-                    case "CONST":
-                    case "MACRO":
-                    case "ENDM":
-                    case "END": 
-                        this.error(outp, `${ inp.str }: NOT IMPLEMENTED YET!`);
+                    default:
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} operand: ${r.str}`, r);
                         break;
                 }
-            }
-            else if (inp.kind === SyntaxItemKind.Label) {
-                outp.label = inp.str;
-            }
-            else if (inp.kind === SyntaxItemKind.Z80Op) {
-                this.asmZ80Op(inp, outp);
-            }
-            else {
-                this.error(outp, `Syntax error: ${inp.str}`);
-            }
-            if (outp.discard) {
-                outp = new ByteRange();
-            }
-            else if (outp.ready) {
-                this.byteRanges.push(outp);
-                this.addr += outp.bytes.length;
-                outp = new ByteRange();
-            }
+                break;
+            case SyntaxItemKind.Z80IndR16:
+                if (this.expect_iHL(outp, r)) {
+                    outp.bytes = [ 0b00110100 | dec ];
+                }
+                break;
+            case SyntaxItemKind.Z80IndIdx:
+                outp.bytes = [ r.prefix, 0b00110100 | dec, r.lo ];
+                break;
+            default:
+                this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} operand: ${r.str}`, r);
+                break;
         }
-        return this.byteRanges;
-    }
-
-    public HasErrors(): boolean {
-        return this.errors.length > 0;
     }
 
-    public PrintErrors() {
-        for (const err of this.errors) {
-            console.log(`error in line ${ err.line }: ${ err.msg }`);
+    private asmZ80Bit(op: string, outp: ByteRange) {
+        // BIT/RES/SET b,r or b,(HL) or b,(IX/IY+d)
+        const b = this.next_operand(outp);
+        if (this.next_item().kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+            return;
+        }
+        if ((b.kind !== SyntaxItemKind.Number) || (b.num < 0) || (b.num > 7)) {
+            this.error(outp, ErrorCode.ValueOutOfRange, `bit index must be 0..7: ${b.str}`, b);
+            this.skip_item();
+            return;
         }
+        const opbits = (op === "BIT") ? 0b01000000 : ((op === "RES") ? 0b10000000 : 0b11000000);
+        this.asmZ80CB(op, opbits | b.num << 3, outp);
     }
 
-    private asmZ80Op(inp: SyntaxItem, outp: ByteRange) {
-        outp.ready = true;
-        switch (inp.str) {
-            // simple ops without operands
-            case "NOP":     outp.bytes = [ 0x00 ]; break;
-            case "EXX":     outp.bytes = [ 0xD9 ]; break;
-            case "LDI":     outp.bytes = [ 0xED, 0xA0 ]; break;
-            case "LDIR":    outp.bytes = [ 0xED, 0xB0 ]; break;
-            case "LDD":     outp.bytes = [ 0xED, 0xA8 ]; break;
-            case "LDDR":    outp.bytes = [ 0xED, 0xB8 ]; break;
-            case "CPI":     outp.bytes = [ 0xED, 0xA1 ]; break;
-            case "CPIR":    outp.bytes = [ 0xED, 0xB1 ]; break;
-            case "CPD":     outp.bytes = [ 0xED, 0xA9 ]; break;
-            case "CPDR":    outp.bytes = [ 0xED, 0xB9 ]; break;
-            case "DAA":     outp.bytes = [ 0x27 ]; break;
-            case "CPL":     outp.bytes = [ 0x2F ]; break;
-            case "NEG":     outp.bytes = [ 0xED, 0x44 ]; break;
-            case "CCF":     outp.bytes = [ 0x3F ]; break;
-            case "SCF":     outp.bytes = [ 0x37 ]; break;
-            case "HALT":    outp.bytes = [ 0x76 ]; break;
-            case "DI":      outp.bytes = [ 0xF3 ]; break;
-            case "EI":      outp.bytes = [ 0xFB ]; break;
-            case "RLCA":    outp.bytes = [ 0x07 ]; break;
-            case "RLA":     outp.bytes = [ 0x17 ]; break;
-            case "RRCA":    outp.bytes = [ 0x0F ]; break;
-            case "RRA":     outp.bytes = [ 0x1F ]; break;
-            case "RLD":     outp.bytes = [ 0xED, 0x6F ]; break;
-            case "RRD":     outp.bytes = [ 0xED, 0x67 ]; break;
-            case "RET":     outp.bytes = [ 0xC9 ]; break;
-            case "RETI":    outp.bytes = [ 0xED, 0x4D ]; break;
-            case "RETN":    outp.bytes = [ 0xED, 0x45 ]; break;
-            case "INI":     outp.bytes = [ 0xED, 0xA2 ]; break;
-            case "INIR":    outp.bytes = [ 0xED, 0xB2 ]; break;
-            case "IND":     outp.bytes = [ 0xED, 0xAA ]; break;
-            case "INDR":    outp.bytes = [ 0xED, 0xBA ]; break;
-            case "OUTI":    outp.bytes = [ 0xED, 0xA3 ]; break;
-            case "OTIR":    outp.bytes = [ 0xED, 0xB3 ]; break;
-            case "OUTD":    outp.bytes = [ 0xED, 0xAB ]; break;
-            case "OTDR":    outp.bytes = [ 0xED, 0xBB ]; break;
-            case "LD":
-                this.asmZ80LD(outp);
+    private asmZ80CB(op: string, opbits: number, outp: ByteRange) {
+        // the operand of a CB-prefixed op: r, (HL) or (IX/IY+d),
+        // the indexed form has the displacement before the opcode
+        const r = this.next_operand(outp);
+        switch (r.kind) {
+            case SyntaxItemKind.Z80R8:
+                outp.bytes = [ 0xCB, opbits | Assembler.z80R8bits(r.str) ];
                 break;
-            case "ADD": case "ADC": case "SUB": case "SBC":
-            case "AND": case "XOR": case "OR": case "CP":
-                this.asmZ80ALU(inp.str, outp);
+            case SyntaxItemKind.Z80IndR16:
+                if (this.expect_iHL(outp, r)) {
+                    outp.bytes = [ 0xCB, opbits | 0b110 ];
+                }
+                break;
+            case SyntaxItemKind.Z80IndIdx:
+                if (this.peek_item().kind === SyntaxItemKind.Comma) {
+                    // undocumented: the result is also copied into a register
+                    this.skip_item();
+                    const dst = this.next_operand(outp);
+                    if ((op === "BIT") || (dst.kind !== SyntaxItemKind.Z80R8)) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} (${r.str}+d),${dst.str}`, dst);
+                    }
+                    else if (this.expect_undocumented(outp, `${op} (${r.str}+d),${dst.str}`)) {
+                        outp.bytes = [ r.prefix, 0xCB, r.lo, opbits | Assembler.z80R8bits(dst.str) ];
+                    }
+                }
+                else {
+                    outp.bytes = [ r.prefix, 0xCB, r.lo, opbits | 0b110 ];
+                }
                 break;
             default:
-                this.error(outp, `FIXME: Z80 OP ${inp.str}`);
+                this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} operand: ${r.str}`, r);
                 break;
         }
     }
 
+    private asmZ80IN(outp: ByteRange) {
+        // IN r,(C) or IN A,(n)
+        const r = this.next_operand(outp);
+        const c = this.next_item();
+        const p = this.next_operand(outp);
+        if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if (r.kind !== SyntaxItemKind.Z80R8) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid IN dst: ${r.str}`, r);
+        }
+        else if (p.kind === SyntaxItemKind.Z80IndC) {
+            outp.bytes = [ 0xED, 0b01000000 | Assembler.z80R8bits(r.str) << 3 ];
+        }
+        else if (p.kind === SyntaxItemKind.Z80IndImm) {
+            if (r.str !== "A") {
+                this.error(outp, ErrorCode.InvalidOperand, "(n) can only be read into A", r);
+            }
+            else if (this.expect_8bit(outp, p)) {
+                outp.bytes = [ 0xDB, p.lo ];
+            }
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid IN port: ${p.str}`, p);
+        }
+    }
+
+    private asmZ80OUT(outp: ByteRange) {
+        // OUT (C),r or OUT (n),A
+        const p = this.next_operand(outp);
+        const c = this.next_item();
+        const r = this.next_operand(outp);
+        if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if ((p.kind === SyntaxItemKind.Z80IndC) && (r.kind === SyntaxItemKind.Number) && (r.num === 0)) {
+            if (this.expect_undocumented(outp, "OUT (C),0")) {
+                outp.bytes = [ 0xED, 0x71 ];
+            }
+        }
+        else if (r.kind !== SyntaxItemKind.Z80R8) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid OUT src: ${r.str}`, r);
+        }
+        else if (p.kind === SyntaxItemKind.Z80IndC) {
+            outp.bytes = [ 0xED, 0b01000001 | Assembler.z80R8bits(r.str) << 3 ];
+        }
+        else if (p.kind === SyntaxItemKind.Z80IndImm) {
+            if (r.str !== "A") {
+                this.error(outp, ErrorCode.InvalidOperand, "can only write A to (n)", r);
+            }
+            else if (this.expect_8bit(outp, p)) {
+                outp.bytes = [ 0xD3, p.lo ];
+            }
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid OUT port: ${p.str}`, p);
+        }
+    }
+
     private asmZ80ALU(alu: string, outp: ByteRange) {
-        const l = this.next_item();
+        let l = this.next_operand(outp);
         // 16-bit operation?
         if (l.kind === SyntaxItemKind.Z80R16) {
-            // FIXME
-            this.error(outp, "FIXME: 16-bit ALU operation");
+            this.asmZ80ALU16(alu, l, outp);
         }
         else {
+            // ALU A,x is the same as ALU x
+            if ((l.kind === SyntaxItemKind.Z80R8) && (l.str === "A") &&
+                (this.peek_item().kind === SyntaxItemKind.Comma)) {
+                this.skip_item();
+                l = this.next_operand(outp);
+            }
             const alubits = Assembler.z80ALUbits(alu);
             switch (l.kind) {
                 case SyntaxItemKind.Number:
@@ -867,6 +3565,12 @@ export class Assembler {
                     const rbits = Assembler.z80R8bits(l.str);
                     outp.bytes = [ 0b10000000 | alubits << 3 | rbits ];
                     break;
+                case SyntaxItemKind.Z80R8X:
+                    // ALU IXH/IXL/IYH/IYL
+                    if (this.expect_undocumented(outp, `${alu} ${l.str}`)) {
+                        outp.bytes = [ l.prefix, 0b10000000 | alubits << 3 | Assembler.z80R8bits(l.str) ];
+                    }
+                    break;
                 case SyntaxItemKind.Z80IndR16:
                     // ALU (HL)
                     if (this.expect_iHL(outp, l)) {
@@ -878,19 +3582,68 @@ export class Assembler {
                     outp.bytes = [ l.prefix, 0b10000110 | alubits << 3, l.lo ];
                     break;
                 default:
-                    this.error(outp, `invalid 8-bit ALU operand: ${l.str}`);
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid 8-bit ALU operand: ${l.str}`, l);
+                    break;
+            }
+        }
+    }
+
+    private asmZ80ALU16(alu: string, l: SyntaxItem, outp: ByteRange) {
+        // ADD/ADC/SBC HL,rr or ADD IX/IY,rr
+        const c = this.next_item();
+        const r = this.next_operand(outp);
+        if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if (r.kind !== SyntaxItemKind.Z80R16) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid src in ${alu} ${l.str},${r.str}`, r);
+        }
+        else if (l.str === "HL") {
+            if (!((r.str === "BC") || (r.str === "DE") || (r.str === "HL") || (r.str === "SP"))) {
+                this.error(outp, ErrorCode.InvalidOperand, `invalid src in ${alu} HL,${r.str}`, r);
+                return;
+            }
+            const rbits = Assembler.z80R16bits(r.str);
+            switch (alu) {
+                case "ADD": outp.bytes = [ 0b00001001 | rbits << 4 ]; break;
+                case "ADC": outp.bytes = [ 0xED, 0b01001010 | rbits << 4 ]; break;
+                case "SBC": outp.bytes = [ 0xED, 0b01000010 | rbits << 4 ]; break;
+                default:
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid 16-bit ALU operation: ${alu} HL`, l);
                     break;
             }
         }
+        else if ((l.str === "IX") || (l.str === "IY")) {
+            // the index register itself takes the place of HL
+            if (alu !== "ADD") {
+                this.error(outp, ErrorCode.InvalidOperand, `invalid 16-bit ALU operation: ${alu} ${l.str}`, l);
+            }
+            else if ((r.str === "BC") || (r.str === "DE") || (r.str === "SP")) {
+                outp.bytes = [ l.prefix, 0b00001001 | Assembler.z80R16bits(r.str) << 4 ];
+            }
+            else if (r.str === l.str) {
+                outp.bytes = [ l.prefix, 0x29 ];
+            }
+            else {
+                this.error(outp, ErrorCode.InvalidOperand, `invalid src in ADD ${l.str},${r.str}`, r);
+            }
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid 16-bit ALU operation: ${alu} ${l.str}`, l);
+        }
     }
 
     private asmZ80LD(outp: ByteRange) {
         // LD left,right
-        const l = this.next_item();
+        const l = this.next_operand(outp);
         const c = this.next_item();
-        const r = this.next_item();
+        const r = this.next_operand(outp);
         if (c.kind !== SyntaxItemKind.Comma) {
-            this.error(outp, "comma expected");
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+            return;
+        }
+        if ((l.kind === SyntaxItemKind.Z80R8X) || (r.kind === SyntaxItemKind.Z80R8X)) {
+            this.asmZ80LD8X(l, r, outp);
             return;
         }
         switch (l.kind) {
@@ -915,12 +3668,12 @@ export class Assembler {
                     case SyntaxItemKind.Z80RI:
                         // LD A,I
                         if (l.str === "A") { outp.bytes = [ 0xED, 0x57 ]; }
-                        else { this.error(outp, "I can only be loaded into A"); }
+                        else { this.error(outp, ErrorCode.InvalidOperand, "I can only be loaded into A"); }
                         break;
                     case SyntaxItemKind.Z80RR:
                         // LD A,R
                         if (l.str === "A") { outp.bytes = [ 0xED, 0x5F ]; }
-                        else { this.error(outp, "R can only be loaded into A"); }
+                        else { this.error(outp, ErrorCode.InvalidOperand, "R can only be loaded into A"); }
                         break;
                     case SyntaxItemKind.Z80IndR16:
                         // LD r,(HL) LD A,(BC) LD A,(DE)
@@ -930,14 +3683,15 @@ export class Assembler {
                         }
                         else if (r.str === "BC") {
                             if (l.str === "A") { outp.bytes = [ 0x0A ]; }
-                            else { this.error(outp, "(BC) can only be loaded into A"); }
+                            else { this.error(outp, ErrorCode.InvalidOperand, "(BC) can only be loaded into A"); }
                         }
                         else if (r.str === "DE") {
                             if (l.str === "A") { outp.bytes = [ 0x1A ]; }
-                            else { this.error(outp, "(DE) can only be loaded into A"); }
+                            else { this.error(outp, ErrorCode.InvalidOperand, "(DE) can only be loaded into A"); }
                         }
                         else {
-                            this.error(outp, `Invalid indirect load: LD ${l.str},(${r.str})`);
+                            this.error(outp, ErrorCode.InvalidOperand,
+                                `Invalid indirect load: LD ${l.str},(${r.str})`, r);
                         }
                         break;
                     case SyntaxItemKind.Z80IndIdx:
@@ -950,29 +3704,32 @@ export class Assembler {
                     case SyntaxItemKind.Z80IndImm:
                         // LD A,(nn)
                         if (l.str === "A") { outp.bytes = [ 0x3A, r.lo, r.hi ]; }
-                        else { this.error(outp, "(nn) can only be loaded into A"); }
+                        else { this.error(outp, ErrorCode.InvalidOperand, "(nn) can only be loaded into A"); }
                         break;
                     default:
-                        this.error(outp, `invalid LD src: ${r.str}`);
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid LD src: ${r.str}`, r);
                         break;
                 }
                 break;
             case SyntaxItemKind.Z80RI:
                 // LD I,A
                 if (r.str === "A") { outp.bytes = [ 0xED, 0x47 ]; }
-                else { this.error(outp, "can only load A into I"); }
+                else { this.error(outp, ErrorCode.InvalidOperand, "can only load A into I"); }
                 break;
             case SyntaxItemKind.Z80RR:
                 // LD R,A
                 if (r.str === "A") { outp.bytes = [ 0xED, 0x4F ]; }
-                else { this.error(outp, "can only A into R"); }
+                else { this.error(outp, ErrorCode.InvalidOperand, "can only A into R"); }
                 break;
             case SyntaxItemKind.Z80R16:
                 // LD HL/BC/DE/SP/IX/IY,...
                 switch (l.str) {
                     case "HL": case "IX": case "IY":
                         // LD HL/IX/IY,nn or LD HL/IX/IY,(nn)
-                        if (r.kind === SyntaxItemKind.Number) {
+                        if ((r.kind === SyntaxItemKind.Number) && !this.expect_16bit(outp, r)) {
+                            break;
+                        }
+                        else if (r.kind === SyntaxItemKind.Number) {
                             if ((l.str === "IX") || (l.str === "IY")) {
                                 outp.bytes = [ l.prefix, 0x21, r.lo, r.hi ];
                             }
@@ -989,12 +3746,15 @@ export class Assembler {
                             }
                         }
                         else {
-                            this.error(outp, `invalid src in LD ${l.str},${r.str}`);
+                            this.error(outp, ErrorCode.InvalidOperand, `invalid src in LD ${l.str},${r.str}`, r);
                         }
                         break;
                     case "BC": case "DE": case "SP":
                         // LD BC/DE/SP,nn or LD BC/DE/SP,(nn), LD SP,HL/IX/IY
-                        if (r.kind === SyntaxItemKind.Number) {
+                        if ((r.kind === SyntaxItemKind.Number) && !this.expect_16bit(outp, r)) {
+                            break;
+                        }
+                        else if (r.kind === SyntaxItemKind.Number) {
                             const lbits = Assembler.z80R16bits(l.str);
                             outp.bytes = [ 0b00000001 | lbits << 4, r.lo, r.hi ];
                         }
@@ -1012,108 +3772,572 @@ export class Assembler {
                                     outp.bytes = [ r.prefix, 0xF9 ];
                                 }
                                 else {
-                                    this.error(outp, `invalid src in LD ${l.str},${r.str}`);
+                                    this.error(outp, ErrorCode.InvalidOperand,
+                                        `invalid src in LD ${l.str},${r.str}`, r);
                                 }
                             }
                             else {
-                                this.error(outp, `invalid dst in LD ${l.str},${r.str}`);
+                                this.error(outp, ErrorCode.InvalidOperand, `invalid dst in LD ${l.str},${r.str}`, l);
                             }
                         }
                         else {
-                            this.error(outp, `invalid src in LD ${l.str},${r.str}`);
+                            this.error(outp, ErrorCode.InvalidOperand, `invalid src in LD ${l.str},${r.str}`, r);
                         }
                         break;
                     default:
-                        this.error(outp, `invalid dst in LD ${l.str},...`);
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid dst in LD ${l.str},...`);
+                        break;
+                }
+                break;
+            case SyntaxItemKind.Z80IndR16:
+                // LD (HL/BC/DE),...
+                if (l.str === "HL") {
+                    // LD (HL),r or LD (HL),n
+                    if (r.kind === SyntaxItemKind.Number) {
+                        if (this.expect_8bit(outp, r)) {
+                            outp.bytes = [ 0x36, r.lo ];
+                        }
+                    }
+                    else if (r.kind === SyntaxItemKind.Z80R8) {
+                        const rbits = Assembler.z80R8bits(r.str);
+                        outp.bytes = [ 0b01110000 | rbits ];
+                    }
+                    else {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid src in LD (HL),${r.str}`, r);
+                    }
+                }
+                else if ((l.str === "BC") || (l.str === "DE")) {
+                    if ((r.kind === SyntaxItemKind.Z80R8) && (r.str === "A")) {
+                        outp.bytes = [ l.str === "BC" ? 0x02 : 0x12 ];
+                    }
+                    else {
+                        this.error(outp, ErrorCode.InvalidOperand, `can only load A into (${l.str})`, r);
+                    }
+                }
+                else {
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid dst in LD (${l.str}),${r.str}`, l);
+                }
+                break;
+            case SyntaxItemKind.Z80IndIdx:
+                // LD (IX/IY+d),r or LD (IX/IY+d),n
+                if (r.kind === SyntaxItemKind.Number) {
+                    if (this.expect_8bit(outp, r)) {
+                        outp.bytes = [ l.prefix, 0x36, l.lo, r.lo ];
+                    }
+                }
+                else if (r.kind === SyntaxItemKind.Z80R8) {
+                    const rbits = Assembler.z80R8bits(r.str);
+                    outp.bytes = [ l.prefix, 0b01110000 | rbits, l.lo ];
+                }
+                else {
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid src in LD (${l.str}+d),${r.str}`, r);
+                }
+                break;
+            case SyntaxItemKind.Z80IndImm:
+                // LD (nn),...
+                if ((r.kind === SyntaxItemKind.Z80R8) && (r.str === "A")) {
+                    // LD (nn),A
+                    outp.bytes = [ 0x32, l.lo, l.hi ];
+                }
+                else if (r.kind === SyntaxItemKind.Z80R16) {
+                    switch (r.str) {
+                        case "HL":
+                            outp.bytes = [ 0x22, l.lo, l.hi ];
+                            break;
+                        case "IX": case "IY":
+                            outp.bytes = [ r.prefix, 0x22, l.lo, l.hi ];
+                            break;
+                        case "BC": case "DE": case "SP":
+                            { 
+                                const rbits = Assembler.z80R16bits(r.str);
+                                outp.bytes = [ 0xED, 0b01000011 | rbits << 4, l.lo, l.hi ];
+                            }
+                            break;
+                        default:
+                            this.error(outp, ErrorCode.InvalidOperand, `invalid src in LD (nn),${r.str}`, r);
+                    }
+                }
+                break;
+            default:
+                this.error(outp, ErrorCode.InvalidOperand, `invalid LD dst: ${l.str}`, l);
+                break;
+        }
+    }
+
+    private asmZ80LD8X(l: SyntaxItem, r: SyntaxItem, outp: ByteRange) {
+        // undocumented LD x,n LD x,r LD r,x with IXH/IXL/IYH/IYL, 
+        // the prefix replaces H/L, so H/L and the other index register can't be mixed in
+        if (!this.expect_undocumented(outp, `LD ${l.str},${r.str}`)) {
+            return;
+        }
+        const x = (l.kind === SyntaxItemKind.Z80R8X) ? l : r;
+        const other = (x === l) ? r : l;
+        if ((x === l) && (r.kind === SyntaxItemKind.Number)) {
+            if (this.expect_8bit(outp, r)) {
+                outp.bytes = [ l.prefix, 0b00000110 | Assembler.z80R8bits(l.str) << 3, r.lo ];
+            }
+        }
+        else if (((other.kind === SyntaxItemKind.Z80R8) && (other.str !== "H") && (other.str !== "L")) ||
+                 ((other.kind === SyntaxItemKind.Z80R8X) && (other.prefix === x.prefix))) {
+            const lbits = Assembler.z80R8bits(l.str);
+            const rbits = Assembler.z80R8bits(r.str);
+            outp.bytes = [ x.prefix, 0b01000000 | lbits << 3 | rbits ];
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid LD ${l.str},${r.str}`);
+        }
+    }
+
+    private asmSM83Op(inp: SyntaxItem, outp: ByteRange) {
+        // the SM83 instructions which differ from the Z80, everything else is
+        // assembled as Z80 (the missing Z80 instructions and registers aren't SM83 names)
+        outp.ready = true;
+        const l = this.peek_item();
+        switch (inp.str) {
+            case "LD":
+                if (this.asmSM83LD(outp)) {
+                    return;
+                }
+                break;
+            case "LDH":
+                this.asmSM83LDH(outp);
+                return;
+            case "STOP":
+                outp.bytes = [ 0x10, 0x00 ];
+                return;
+            case "SWAP":
+                this.asmZ80CB(inp.str, 0b00110000, outp);
+                return;
+            case "RETI":
+                outp.bytes = [ 0xD9 ];
+                return;
+            case "ADD":
+                if ((l.kind === SyntaxItemKind.Z80R16) && (l.str === "SP")) {
+                    // ADD SP,e
+                    this.skip_item();
+                    const c = this.next_item();
+                    const e = this.next_operand(outp);
+                    if (c.kind !== SyntaxItemKind.Comma) {
+                        this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+                    }
+                    else if (e.kind !== SyntaxItemKind.Number) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ADD SP operand: ${e.str}`, e);
+                    }
+                    else if (this.expect_displacement(outp, e)) {
+                        outp.bytes = [ 0xE8, e.lo ];
+                    }
+                    return;
+                }
+                break;
+            case "ADC": case "SBC":
+                if (l.kind === SyntaxItemKind.Z80R16) {
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid 16-bit ALU operation: ${inp.str} ${l.str}`, l);
+                    return;
+                }
+                break;
+            case "JP": case "CALL": case "RET":
+                if ((l.kind === SyntaxItemKind.Z80Cond) && (Assembler.z80CCbits(l.str) > 3)) {
+                    this.error(outp, ErrorCode.InvalidOperand, `invalid condition for ${inp.str}: ${l.str}`, l);
+                    return;
+                }
+                break;
+        }
+        this.asmZ80Op(inp, outp);
+    }
+
+    /** assemble the SM83-specific LD forms, return false for the Z80 forms */
+    private asmSM83LD(outp: ByteRange): boolean {
+        const l = this.peek_item();
+        const r = this.peek_item(2);
+        const isA = (item: SyntaxItem) => (item.kind === SyntaxItemKind.Z80R8) && (item.str === "A");
+        if ((this.peek_item(1).kind !== SyntaxItemKind.Comma) ||
+            ((l.kind !== SyntaxItemKind.Z80IndImm) && (l.kind !== SyntaxItemKind.Z80IndC) &&
+             (r.kind !== SyntaxItemKind.Z80IndImm) && (r.kind !== SyntaxItemKind.Z80IndC) &&
+             (l.str !== "HL+") && (l.str !== "HL-") && (r.str !== "HL+") && (r.str !== "HL-") &&
+             !((l.str === "HL") && (r.str === "SP")))) {
+            return false;
+        }
+        const lop = this.next_operand(outp);
+        this.skip_item();
+        const rop = this.next_operand(outp);
+        if ((lop.kind === SyntaxItemKind.Z80IndImm) && isA(rop)) {
+            outp.bytes = [ 0xEA, lop.lo, lop.hi ];
+        }
+        else if (isA(lop) && (rop.kind === SyntaxItemKind.Z80IndImm)) {
+            outp.bytes = [ 0xFA, rop.lo, rop.hi ];
+        }
+        else if ((lop.kind === SyntaxItemKind.Z80IndImm) && (rop.str === "SP")) {
+            outp.bytes = [ 0x08, lop.lo, lop.hi ];
+        }
+        else if ((lop.kind === SyntaxItemKind.Z80IndC) && isA(rop)) {
+            outp.bytes = [ 0xE2 ];
+        }
+        else if (isA(lop) && (rop.kind === SyntaxItemKind.Z80IndC)) {
+            outp.bytes = [ 0xF2 ];
+        }
+        else if (((lop.str === "HL+") || (lop.str === "HL-")) && isA(rop)) {
+            outp.bytes = [ (lop.str === "HL+") ? 0x22 : 0x32 ];
+        }
+        else if (isA(lop) && ((rop.str === "HL+") || (rop.str === "HL-"))) {
+            outp.bytes = [ (rop.str === "HL+") ? 0x2A : 0x3A ];
+        }
+        else if ((lop.str === "HL") && (rop.kind === SyntaxItemKind.Z80R16) && (rop.str === "SP")) {
+            // LD HL,SP+e, the displacement is parsed as a separate signed value
+            const e = this.next_operand(outp);
+            if ((e.kind === SyntaxItemKind.Number) && this.expect_displacement(outp, e)) {
+                outp.bytes = [ 0xF8, e.lo ];
+            }
+            else if (e.kind !== SyntaxItemKind.Number) {
+                this.error(outp, ErrorCode.SyntaxError, "expected LD HL,SP+e");
+            }
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid LD ${lop.str},${rop.str}`);
+        }
+        return true;
+    }
+
+    private asmSM83LDH(outp: ByteRange) {
+        // LDH (n),A or LDH A,(n), n can be $00..$FF or $FF00..$FFFF
+        const l = this.next_operand(outp);
+        const c = this.next_item();
+        const r = this.next_operand(outp);
+        const isHigh = (item: SyntaxItem) => (item.kind === SyntaxItemKind.Z80IndImm) &&
+                                              (((item.num >= 0) && (item.num <= 0xFF)) ||
+                                               ((item.num >= 0xFF00) && (item.num <= 0xFFFF)));
+        if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if (isHigh(l) && (r.kind === SyntaxItemKind.Z80R8) && (r.str === "A")) {
+            outp.bytes = [ 0xE0, l.lo ];
+        }
+        else if ((l.kind === SyntaxItemKind.Z80R8) && (l.str === "A") && isHigh(r)) {
+            outp.bytes = [ 0xF0, r.lo ];
+        }
+        else {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid LDH ${l.str},${r.str}`);
+        }
+    }
+
+    private asmI8080Op(inp: SyntaxItem, outp: ByteRange) {
+        const [ format, opcode ] = I8080Ops[inp.str];
+        outp.ready = true;
+        switch (format) {
+            case I8080Format.None:
+                outp.bytes = [ opcode ];
+                break;
+            case I8080Format.Src:
+            case I8080Format.Dst:
+                {
+                    const r = this.next_i8080_reg(inp.str, outp, false);
+                    if (r !== null) {
+                        const rbits = Assembler.i8080Rbits(r);
+                        outp.bytes = [ opcode | ((format === I8080Format.Src) ? rbits : rbits << 3) ];
+                    }
+                }
+                break;
+            case I8080Format.Move:
+                {
+                    const d = this.next_i8080_reg(inp.str, outp, false);
+                    const c = this.next_item();
+                    const r = this.next_i8080_reg(inp.str, outp, false);
+                    if (c.kind !== SyntaxItemKind.Comma) {
+                        this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+                    }
+                    else if ((d === "M") && (r === "M")) {
+                        this.error(outp, ErrorCode.InvalidOperand, "invalid MOV M,M");
+                    }
+                    else if ((d !== null) && (r !== null)) {
+                        outp.bytes = [ opcode | Assembler.i8080Rbits(d) << 3 | Assembler.i8080Rbits(r) ];
+                    }
+                }
+                break;
+            case I8080Format.MoveImm:
+                {
+                    const d = this.next_i8080_reg(inp.str, outp, false);
+                    const c = this.next_item();
+                    const n = this.next_operand(outp);
+                    if (c.kind !== SyntaxItemKind.Comma) {
+                        this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+                    }
+                    else if (d === null) {
                         break;
+                    }
+                    else if (n.kind !== SyntaxItemKind.Number) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} operand: ${n.str}`, n);
+                    }
+                    else if (this.expect_8bit(outp, n)) {
+                        outp.bytes = [ opcode | Assembler.i8080Rbits(d) << 3, n.lo ];
+                    }
                 }
                 break;
-            case SyntaxItemKind.Z80IndR16:
-                // LD (HL/BC/DE),...
-                if (l.str === "HL") {
-                    // LD (HL),r or LD (HL),n
-                    if (r.kind === SyntaxItemKind.Number) {
-                        if (this.expect_8bit(outp, r)) {
-                            outp.bytes = [ 0x36, r.lo ];
-                        }
+            case I8080Format.Pair:
+                {
+                    const r = this.peek_item();
+                    const rp = this.next_i8080_reg(inp.str, outp, true);
+                    if (rp === null) {
+                        break;
                     }
-                    else if (r.kind === SyntaxItemKind.Z80R8) {
-                        const rbits = Assembler.z80R8bits(r.str);
-                        outp.bytes = [ 0b01110000 | rbits ];
+                    // PUSH/POP take PSW instead of SP, LDAX/STAX only B and D
+                    const stack = (inp.str === "PUSH") || (inp.str === "POP");
+                    if (((rp === "SP") && stack) || ((rp === "PSW") && !stack) ||
+                        (((inp.str === "LDAX") || (inp.str === "STAX")) && (rp !== "B") && (rp !== "D"))) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} operand: ${rp}`, r);
                     }
                     else {
-                        this.error(outp, `invalid src in LD (HL),${r.str}`);
+                        outp.bytes = [ opcode | Assembler.i8080RPbits(rp) << 4 ];
                     }
                 }
-                else if ((l.str === "BC") || (l.str === "DE")) {
-                    if ((r.kind === SyntaxItemKind.Z80R8) && (r.str === "A")) {
-                        outp.bytes = [ l.str === "BC" ? 0x02 : 0x12 ];
+                break;
+            case I8080Format.PairImm:
+                {
+                    const r = this.peek_item();
+                    const rp = this.next_i8080_reg(inp.str, outp, true);
+                    const c = this.next_item();
+                    const nn = this.next_operand(outp);
+                    if (c.kind !== SyntaxItemKind.Comma) {
+                        this.error(outp, ErrorCode.ExpectedComma, "comma expected");
                     }
-                    else {
-                        this.error(outp, `can only load A into (${l.str})`);
+                    else if (rp === "PSW") {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} operand: ${rp}`, r);
+                    }
+                    else if (rp === null) {
+                        break;
+                    }
+                    else if (nn.kind !== SyntaxItemKind.Number) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} operand: ${nn.str}`, nn);
+                    }
+                    else if (this.expect_16bit(outp, nn)) {
+                        outp.bytes = [ opcode | Assembler.i8080RPbits(rp) << 4, nn.lo, nn.hi ];
                     }
                 }
-                else {
-                    this.error(outp, `invalid dst in LD (${l.str}),${r.str}`);
+                break;
+            case I8080Format.Imm8:
+                {
+                    const n = this.next_operand(outp);
+                    if (n.kind !== SyntaxItemKind.Number) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} operand: ${n.str}`, n);
+                    }
+                    else if (this.expect_8bit(outp, n)) {
+                        outp.bytes = [ opcode, n.lo ];
+                    }
                 }
                 break;
-            case SyntaxItemKind.Z80IndIdx:
-                // LD (IX/IY+d),r or LD (IX/IY+d),n
-                if (r.kind === SyntaxItemKind.Number) {
-                    if (this.expect_8bit(outp, r)) {
-                        outp.bytes = [ l.prefix, 0x36, l.lo, r.lo ];
+            case I8080Format.Imm16:
+                {
+                    const nn = this.next_operand(outp);
+                    if (nn.kind !== SyntaxItemKind.Number) {
+                        this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} operand: ${nn.str}`, nn);
+                    }
+                    else if (this.expect_16bit(outp, nn)) {
+                        outp.bytes = [ opcode, nn.lo, nn.hi ];
                     }
                 }
-                else if (r.kind === SyntaxItemKind.Z80R8) {
-                    const rbits = Assembler.z80R8bits(r.str);
-                    outp.bytes = [ l.prefix, 0b01110000 | rbits, l.lo ];
+                break;
+            case I8080Format.Rst:
+                {
+                    const n = this.next_operand(outp);
+                    if ((n.kind === SyntaxItemKind.Number) && (n.num >= 0) && (n.num <= 7)) {
+                        outp.bytes = [ opcode | n.num << 3 ];
+                    }
+                    else {
+                        this.error(outp, ErrorCode.ValueOutOfRange, `invalid RST number (must be 0..7): ${n.str}`, n);
+                    }
                 }
-                else {
-                    this.error(outp, `invalid src in LD (${l.str}+d),${r.str}`);
+                break;
+        }
+    }
+
+    /** return the next 8080 register (or register pair) name, or null */
+    private next_i8080_reg(op: string, outp: ByteRange, pair: boolean): string {
+        const r = this.next_item();
+        const names = pair ? [ "B", "D", "H", "SP", "PSW" ] : [ "A", "B", "C", "D", "E", "H", "L", "M" ];
+        if ((r.kind === SyntaxItemKind.I8080Reg) && (names.indexOf(r.str) !== -1)) {
+            return r.str;
+        }
+        this.error(outp, ErrorCode.InvalidOperand, `invalid ${op} operand: ${r.str}`, r);
+        return null;
+    }
+
+    private asmM6502Op(inp: SyntaxItem, outp: ByteRange) {
+        const opcodes = CPUOpcodes[this.cpu][inp.str];
+        if (opcodes === undefined) {
+            this.error(outp, ErrorCode.InvalidInstruction, `invalid 6502 instruction: ${inp.str}`);
+            return;
+        }
+        outp.ready = true;
+        // find the addressing mode from the operand syntax
+        let mode: M6502Mode;
+        let val: SyntaxItem = null;
+        const item = this.peek_item();
+        const hasOperand = opcodes.some((code, m) => (code !== -1) && (m !== M6502Mode.Implied));
+        if (!hasOperand) {
+            mode = M6502Mode.Implied;
+        }
+        else if (item.kind === SyntaxItemKind.M6502Imm) {
+            val = this.next_operand(outp);
+            mode = M6502Mode.Immediate;
+        }
+        else if (item.kind === SyntaxItemKind.M6502IndX) {
+            val = this.next_operand(outp);
+            mode = (opcodes[M6502Mode.AbsoluteIndirectX] !== -1) ? M6502Mode.AbsoluteIndirectX : M6502Mode.IndirectX;
+        }
+        else if (item.kind === SyntaxItemKind.Z80IndImm) {
+            val = this.next_operand(outp);
+            if (this.next_m6502_index() === "Y") {
+                mode = M6502Mode.IndirectY;
+            }
+            else {
+                mode = (opcodes[M6502Mode.Indirect] !== -1) ? M6502Mode.Indirect : M6502Mode.ZeroPageIndirect;
+            }
+        }
+        else if ((item.kind === SyntaxItemKind.Number) && (opcodes[M6502Mode.ZeroPageRelative] !== -1)) {
+            // BBR/BBS zp,target
+            this.asmM6502ZeroPageRelative(inp, opcodes[M6502Mode.ZeroPageRelative], outp);
+            return;
+        }
+        else if (item.kind === SyntaxItemKind.Number) {
+            val = this.next_operand(outp);
+            const zp = (val.num >= 0) && (val.num <= 0xFF);
+            switch (this.next_m6502_index()) {
+                case "X":
+                    mode = (zp && (opcodes[M6502Mode.ZeroPageX] !== -1)) ? M6502Mode.ZeroPageX : M6502Mode.AbsoluteX;
+                    break;
+                case "Y":
+                    mode = (zp && (opcodes[M6502Mode.ZeroPageY] !== -1)) ? M6502Mode.ZeroPageY : M6502Mode.AbsoluteY;
+                    break;
+                default:
+                    if (opcodes[M6502Mode.Relative] !== -1) {
+                        mode = M6502Mode.Relative;
+                    }
+                    else {
+                        mode = (zp && (opcodes[M6502Mode.ZeroPage] !== -1)) ? M6502Mode.ZeroPage : M6502Mode.Absolute;
+                    }
+                    break;
+            }
+        }
+        else if ((item.kind === SyntaxItemKind.M6502Reg) && (item.str === "A")) {
+            this.skip_item();
+            mode = M6502Mode.Accumulator;
+        }
+        else {
+            // ASL, LSR, ROL, ROR without operand work on the accumulator
+            mode = M6502Mode.Accumulator;
+        }
+        const opcode = opcodes[mode];
+        if (opcode === -1) {
+            const operand = (val !== null) ? val.str : item.str;
+            this.error(outp, ErrorCode.InvalidOperand, `invalid addressing mode in ${inp.str} ${operand}`);
+            return;
+        }
+        switch (mode) {
+            case M6502Mode.Implied:
+            case M6502Mode.Accumulator:
+                outp.bytes = [ opcode ];
+                break;
+            case M6502Mode.Immediate:
+                if (this.expect_8bit(outp, val)) {
+                    outp.bytes = [ opcode, val.lo ];
                 }
                 break;
-            case SyntaxItemKind.Z80IndImm:
-                // LD (nn),...
-                if ((r.kind === SyntaxItemKind.Z80R8) && (r.str === "A")) {
-                    // LD (nn),A
-                    outp.bytes = [ 0x32, l.lo, l.hi ];
+            case M6502Mode.ZeroPage:
+            case M6502Mode.ZeroPageX:
+            case M6502Mode.ZeroPageY:
+            case M6502Mode.IndirectX:
+            case M6502Mode.IndirectY:
+            case M6502Mode.ZeroPageIndirect:
+                if ((val.num < 0) || (val.num > 0xFF)) {
+                    this.error(outp, ErrorCode.ValueOutOfRange, `zero page address out of range: ${val.str}`, val);
                 }
-                else if (r.kind === SyntaxItemKind.Z80R16) {
-                    switch (r.str) {
-                        case "HL":
-                            outp.bytes = [ 0x22, l.lo, l.hi ];
-                            break;
-                        case "IX": case "IY":
-                            outp.bytes = [ r.prefix, 0x22, l.lo, l.hi ];
-                            break;
-                        case "BC": case "DE": case "SP":
-                            { 
-                                const rbits = Assembler.z80R16bits(r.str);
-                                outp.bytes = [ 0xED, 0b01000011 | rbits << 4, l.lo, l.hi ];
-                            }
-                            break;
-                        default:
-                            this.error(outp, `invalid src in LD (nn),${r.str}`);
+                else {
+                    outp.bytes = [ opcode, val.lo ];
+                }
+                break;
+            case M6502Mode.Relative:
+                {
+                    // the displacement is relative to the next instruction
+                    const d = val.num - (outp.addr + 2);
+                    outp.bytes = [ opcode, d & 0xFF ];
+                    if ((d < -128) || (d > 127)) {
+                        // keep the bytes, so that addresses stay intact
+                        this.report(outp, ErrorCode.BranchOutOfRange, `branch target out of range: ${d}`, val);
                     }
                 }
                 break;
             default:
-                this.error(outp, `invalid LD dst: ${l.str}`);
+                if (this.expect_16bit(outp, val)) {
+                    outp.bytes = [ opcode, val.lo, val.hi ];
+                }
                 break;
         }
     }
 
-    private peek_item(): SyntaxItem {
-        let item = this.syntaxItems[this.syntaxItemIndex];
-        if (item === undefined) {
-            item = new SyntaxItem();
-            item.kind = SyntaxItemKind.EOF;
+    private asmM6502ZeroPageRelative(inp: SyntaxItem, opcode: number, outp: ByteRange) {
+        // BBRn/BBSn zp,target, the displacement is relative to the next instruction
+        const zp = this.next_operand(outp);
+        const c = this.next_item();
+        const t = this.next_operand(outp);
+        if (c.kind !== SyntaxItemKind.Comma) {
+            this.error(outp, ErrorCode.ExpectedComma, "comma expected");
+        }
+        else if (t.kind !== SyntaxItemKind.Number) {
+            this.error(outp, ErrorCode.InvalidOperand, `invalid ${inp.str} target: ${t.str}`, t);
+        }
+        else if ((zp.num < 0) || (zp.num > 0xFF)) {
+            this.error(outp, ErrorCode.ValueOutOfRange, `zero page address out of range: ${zp.str}`, zp);
+        }
+        else {
+            const d = t.num - (outp.addr + 3);
+            outp.bytes = [ opcode, zp.lo, d & 0xFF ];
+            if ((d < -128) || (d > 127)) {
+                // keep the bytes, so that addresses stay intact
+                this.report(outp, ErrorCode.BranchOutOfRange, `branch target out of range: ${d}`, t);
+            }
         }
-        return item;
     }
 
+    /** skip and return a 6502 index register after a comma (X or Y), or null */
+    private next_m6502_index(): string {
+        const index = this.peek_item(1);
+        if ((this.peek_item().kind === SyntaxItemKind.Comma) && (index.kind === SyntaxItemKind.M6502Reg) &&
+            ((index.str === "X") || (index.str === "Y"))) {
+            this.skip_item();
+            this.skip_item();
+            return index.str;
+        }
+        return null;
+    }
+
+    /** return the item at offset in the current statement, or the EOL item if the line ends before */
+    private peek_item(offset: number = 0): SyntaxItem {
+        for (let i = 0; i <= offset; i++) {
+            const item = this.syntaxItems[this.syntaxItemIndex + i];
+            if (item === undefined) {
+                const eof = new SyntaxItem();
+                eof.kind = SyntaxItemKind.EOF;
+                return eof;
+            }
+            else if ((item.kind === SyntaxItemKind.EOL) || (i === offset)) {
+                return item;
+            }
+        }
+    }
+
+    /** skip the current item, the end of a line is only skipped by skip_line */
     private skip_item() {
-        this.syntaxItemIndex++;
+        const kind = this.peek_item().kind;
+        if ((kind !== SyntaxItemKind.EOL) && (kind !== SyntaxItemKind.EOF)) {
+            this.syntaxItemIndex++;
+        }
+    }
+
+    /** skip the rest of the current line, including the EOL item */
+    private skip_line() {
+        while (this.syntaxItemIndex < this.syntaxItems.length) {
+            if (this.syntaxItems[this.syntaxItemIndex++].kind === SyntaxItemKind.EOL) {
+                break;
+            }
+        }
     }
 
     private next_item(): SyntaxItem {
@@ -1122,9 +4346,177 @@ export class Assembler {
         return item;
     }
 
+    /** 
+     * return the next syntax item as operand, value expressions
+     * are evaluated with the current symbol table
+     */
+    private next_operand(outp: ByteRange): SyntaxItem {
+        const item = this.next_item();
+        if (item.expr === null) {
+            return item;
+        }
+        const res = item.Clone();
+        res.SetNum(this.eval_expr(outp, item.expr, item));
+        if (res.kind === SyntaxItemKind.Z80IndIdx) {
+            this.expect_displacement(outp, res);
+        }
+        else if ((res.kind === SyntaxItemKind.Z80IndImm) && !res.is16bit) {
+            this.error(outp, ErrorCode.ValueOutOfRange, "16-bit integer overflow!", item);
+        }
+        return res;
+    }
+
+    /** evaluate an expression tree, errors are reported at the syntax item at */
+    private eval_expr(outp: ByteRange, expr: Expr, at: SyntaxItem): number {
+        switch (expr.op) {
+            case ExprOp.Num:    return expr.num;
+            case ExprOp.Sym:    return this.lookup_symbol(outp, expr.sym, at);
+            case ExprOp.Char:   return this.translate_char(outp, expr.num, at);
+            case ExprOp.Neg:    return -this.eval_expr(outp, expr.left, at);
+            case ExprOp.Not:    return ~this.eval_expr(outp, expr.left, at);
+            case ExprOp.Lo:     return this.eval_expr(outp, expr.left, at) & 0xFF;
+            case ExprOp.Hi:     return (this.eval_expr(outp, expr.left, at) >> 8) & 0xFF;
+        }
+        const l = this.eval_expr(outp, expr.left, at);
+        const r = this.eval_expr(outp, expr.right, at);
+        switch (expr.op) {
+            case ExprOp.Add:    return l + r;
+            case ExprOp.Sub:    return l - r;
+            case ExprOp.Mul:    return l * r;
+            case ExprOp.And:    return l & r;
+            case ExprOp.Or:     return l | r;
+            case ExprOp.Xor:    return l ^ r;
+            case ExprOp.Shl:    return l << r;
+            case ExprOp.Shr:    return l >> r;
+            case ExprOp.Div:
+            case ExprOp.Mod:
+                if (r === 0) {
+                    this.report(outp, ErrorCode.DivisionByZero, `division by zero in ${ expr.ToString() }`, at);
+                    return 0;
+                }
+                return (expr.op === ExprOp.Div) ? Math.trunc(l / r) : (l % r);
+            default:
+                fatal("invalid expression operator!");
+                return 0;
+        }
+    }
+
+    /** 
+     * lookup a symbol value, an undefined symbol is an error, but 
+     * resolves to 0 so that the byte layout of the pass stays intact
+     */
+    private lookup_symbol(outp: ByteRange, name: string, at: SyntaxItem): number {
+        if ((name in this.variables) && !(name in this.defined)) {
+            this.report(outp, ErrorCode.UndefinedSymbol, `variable used before definition: ${ name }`, at);
+            return 0;
+        }
+        else if (name in this.symbols) {
+            return this.symbols[name];
+        }
+        else {
+            this.report(outp, ErrorCode.UndefinedSymbol, `undefined symbol: ${ name }`, at);
+            return 0;
+        }
+    }
+
+    /** translate a character code through the active charset */
+    private translate_char(outp: ByteRange, code: number, at: SyntaxItem): number {
+        const charset = this.charsets[this.charsetName];
+        if (code in charset) {
+            return charset[code];
+        }
+        else if (code < 256) {
+            return code;
+        }
+        else {
+            const chr = String.fromCharCode(code);
+            this.report(outp, ErrorCode.InvalidCharset,
+                `character '${ chr }' not in charset ${ this.charsetName }`, at);
+            return 0;
+        }
+    }
+
+    /** 
+     * define a symbol, labels and constants can only be defined once 
+     * per pass, variables can be reassigned
+     */
+    private define_symbol(outp: ByteRange, name: string, val: number, kind: SymbolKind) {
+        if (name in this.defined) {
+            const prevKind = this.defined[name];
+            if ((prevKind === SymbolKind.Var) && (kind === SymbolKind.Var)) {
+                this.symbols[name] = val;
+            }
+            else if ((prevKind === SymbolKind.Label) && (kind === SymbolKind.Label)) {
+                this.error(outp, ErrorCode.DuplicateSymbol, `duplicate label: ${ name }`);
+            }
+            else {
+                this.error(outp, ErrorCode.DuplicateSymbol, `symbol redefined: ${ name }`);
+            }
+            return;
+        }
+        this.defined[name] = kind;
+        if (kind === SymbolKind.Var) {
+            // only new variables trigger a new pass, not reassignments
+            if (!(name in this.variables)) {
+                this.variables[name] = true;
+                this.symbolsChanged = true;
+            }
+            this.symbols[name] = val;
+        }
+        else if (this.symbols[name] !== val) {
+            this.symbols[name] = val;
+            this.symbolsChanged = true;
+        }
+    }
+
+    /** return the next syntax item as symbol name, or null */
+    private next_name(outp: ByteRange): string {
+        const item = this.next_item();
+        if ((item.kind === SyntaxItemKind.Number) && (item.expr.op === ExprOp.Sym) && !item.expr.bracketed) {
+            return item.expr.sym;
+        }
+        else {
+            this.error(outp, ErrorCode.SyntaxError, `expected name: ${ item.str }`, item);
+            return null;
+        }
+    }
+
+    /** 
+     * check that an instruction belongs to the active CPU, macro bodies are 
+     * classified by the CPU at their definition, not at their expansion
+     */
+    private expect_cpu_op(outp: ByteRange, inp: SyntaxItem): boolean {
+        let family: string;
+        let valid: boolean;
+        switch (inp.kind) {
+            case SyntaxItemKind.Z80Op:
+                family = "Z80";
+                valid = (this.cpu === CPUType.SM83) ? (SM83SyntaxNames[inp.str] === SyntaxItemKind.Z80Op) :
+                        ((this.cpu === CPUType.None) || (this.cpu === CPUType.Z80));
+                break;
+            case SyntaxItemKind.I8080Op:
+                family = "8080";
+                valid = this.cpu === CPUType.I8080;
+                break;
+            case SyntaxItemKind.M6502Op:
+                family = "6502";
+                valid = CPUOpcodes[this.cpu] !== undefined;
+                break;
+            default:
+                return true;
+        }
+        if (valid) { return true; }
+        else { this.error(outp, ErrorCode.InvalidInstruction, `${family} instruction in ${cpu_name(this.cpu)} mode: ${inp.str}`); }
+    }
+
     private expect_8bit(outp: ByteRange, item: SyntaxItem): boolean {
         if (item.is8bit) { return true; }
-        else { this.error(outp, "8-bit overflow"); }
+        else { this.error(outp, ErrorCode.ValueOutOfRange, "8-bit overflow", item); }
+    }
+
+    private expect_16bit(outp: ByteRange, item: SyntaxItem): boolean {
+        if (item.is16bit) { return true; }
+        else { this.error(outp, ErrorCode.ValueOutOfRange, "16-bit overflow", item); }
     }
 
     private expect_iHL(outp: ByteRange, item: SyntaxItem): boolean {
@@ -1132,13 +4524,114 @@ export class Assembler {
             return true;
         }
         else {
-            this.error(outp, "expected (HL)");
+            this.error(outp, ErrorCode.InvalidOperand, "expected (HL)", item);
         }
     }
 
-    private error(outp: ByteRange, msg: string) {
+    /** check that a value is a signed 8-bit displacement */
+    private expect_displacement(outp: ByteRange, item: SyntaxItem): boolean {
+        if ((item.num >= -128) && (item.num <= 127)) { return true; }
+        else { this.error(outp, ErrorCode.ValueOutOfRange, `displacement out of range: ${item.str}`, item); }
+    }
+
+    /** check that the statement has no more operands, and skip them otherwise */
+    private expect_line_end(outp: ByteRange): boolean {
+        const item = this.peek_item();
+        if ((item.kind === SyntaxItemKind.EOL) || (item.kind === SyntaxItemKind.EOF)) {
+            return true;
+        }
+        this.error(outp, ErrorCode.UnexpectedOperand, `unexpected operand: ${ item.str }`, item);
+        this.skip_line();
+        return false;
+    }
+
+    /** check that undocumented instructions are enabled with UNDOC */
+    private expect_undocumented(outp: ByteRange, what: string): boolean {
+        if (this.undocumented) { return true; }
+        else {
+            this.error(outp, ErrorCode.UndocumentedInstruction,
+                `undocumented instruction ${what} (enable with UNDOC)`);
+        }
+    }
+
+    /** record an error at an operand (or at the statement), and discard the byte range */
+    private error(outp: ByteRange, code: ErrorCode, msg: string, at: SyntaxItem = null) {
         outp.discard = true;
-        this.errors.push(new Error(msg, outp.line));
+        this.report(outp, code, msg, at);
+    }
+
+    /** record an error, but keep the byte range (so that addresses stay intact) */
+    private report(outp: ByteRange, code: ErrorCode, msg: string, at: SyntaxItem = null) {
+        const span = ((at === null) || (at.line === 0)) ? outp : at;
+        this.diagnostics.push(new Diagnostic(Severity.Error, code, msg, span, outp.expansion));
+    }
+}
+
+/** a contiguous block of output bytes and its load address */
+export class Segment {
+    public addr: number;
+    public bytes: Uint8Array;
+    constructor(addr: number, bytes: Uint8Array) {
+        this.addr = addr;
+        this.bytes = bytes;
+    }
+}
+
+/** a symbol table entry */
+export class AsmSymbol {
+    public name: string;
+    public value: number;
+    public kind: SymbolKind;
+    constructor(name: string, value: number, kind: SymbolKind) {
+        this.name = name;
+        this.value = value;
+        this.kind = kind;
+    }
+}
+
+/** a listing entry, the address and bytes generated from a source line */
+export class ListingLine {
+    public file: string;        // source file name, null for the main source
+    public line: number;
+    public addr: number;
+    public bytes: number[];
+    public expansion: Expansion;    // set if the bytes are from a macro expansion
+    constructor(range: ByteRange) {
+        this.file = range.file;
+        this.line = range.line;
+        this.addr = range.addr;
+        this.bytes = range.bytes;
+        this.expansion = range.expansion;
+    }
+}
+
+/** 
+ * the result of HCAsm.Assemble, segments, symbols and listing
+ * are only complete if there are no errors in the diagnostics
+ */
+export class AsmResult {
+    public segments: Segment[] = [];
+    public diagnostics: Diagnostic[] = [];
+    public symbols: AsmSymbol[] = [];
+    public listing: ListingLine[] = [];
+
+    public HasErrors(): boolean {
+        return has_errors(this.diagnostics);
+    }
+
+    /** return all segments concatenated into one blob */
+    public Raw(): Uint8Array {
+        let len = 0;
+        for (const seg of this.segments) {
+            len += seg.bytes.length;
+        }
+        const outp = new Uint8Array(len);
+        let index = 0;
+        for (const seg of this.segments) {
+            outp.set(seg.bytes, index);
+            index += seg.bytes.length;
+        }
+        return outp;
     }
 }
 
@@ -1159,31 +4652,90 @@ export class Bundler {
         }
         return outp;
     }
+
+    /** bundle byte ranges into segments, a new segment starts where the address isn't contiguous */
+    public BundleSegments(ranges: ByteRange[]): Segment[] {
+        const segments = new Array<Segment>();
+        let start = 0;
+        while (start < ranges.length) {
+            let end = start + 1;
+            while ((end < ranges.length) &&
+                   (ranges[end].addr === ranges[end - 1].addr + ranges[end - 1].bytes.length)) {
+                end++;
+            }
+            segments.push(new Segment(ranges[start].addr, this.BundleRaw(ranges.slice(start, end))));
+            start = end;
+        }
+        return segments;
+    }
 }
 
 export class HCAsm {
     
-    public static AsmRaw(src: string): Uint8Array|null {
+    /** 
+     * assemble a source string, includes are loaded through the optional resolver, 
+     * errors are printed to the console, returns null on errors
+     */
+    public static AsmRaw(src: string, resolver: IFileResolver = null, includePaths: string[] = []): Uint8Array|null {
+        return HCAsm.print(HCAsm.Assemble(src, resolver, includePaths), src, null, resolver);
+    }
+
+    /** assemble a source file loaded through a file resolver, see AsmRaw */
+    public static AsmFile(path: string, resolver: IFileResolver, includePaths: string[] = []): Uint8Array|null {
+        const src = resolver.ReadText(path);
+        return HCAsm.print(HCAsm.AssembleFile(path, resolver, includePaths), src, path, resolver);
+    }
+
+    /** assemble a source string into an AsmResult, never writes to the console */
+    public static Assemble(src: string, resolver: IFileResolver = null, includePaths: string[] = []): AsmResult {
+        return HCAsm.asm(src, null, resolver, includePaths);
+    }
+
+    /** assemble a source file loaded through a file resolver into an AsmResult */
+    public static AssembleFile(path: string, resolver: IFileResolver, includePaths: string[] = []): AsmResult {
+        const src = resolver.ReadText(path);
+        if (src === null) {
+            const result = new AsmResult();
+            result.diagnostics.push(new Diagnostic(Severity.Error, ErrorCode.FileNotFound,
+                `file not found: ${ path }`, { file: path, line: 0, col: 0, len: 0 }));
+            return result;
+        }
+        return HCAsm.asm(src, path, resolver, includePaths);
+    }
+
+    public static hello() {
+        console.log("Hello HCAsm");
+    }
+
+    private static asm(src: string, file: string, resolver: IFileResolver, includePaths: string[]): AsmResult {
         const tokenizer = new Tokenizer();
         const parser = new Parser();
+        const preprocessor = new Preprocessor(resolver, includePaths);
         const assembler = new Assembler();
         const bundler = new Bundler();
+        const result = new AsmResult();
+        // statements with errors are dropped by each stage, so that the
+        // following stages still report all errors in the valid statements
         const tokens = tokenizer.Tokenize(src);
-        const syntaxItems = parser.Parse(tokens);
-        if (parser.HasErrors()) {
-            parser.PrintErrors();
-            return null;
-        }
+        const parsedItems = parser.Parse(tokens, file);
+        const syntaxItems = preprocessor.Process(parsedItems, file);
         const byteRanges = assembler.Assemble(syntaxItems);
-        if (assembler.HasErrors()) {
-            assembler.PrintErrors();
-            return null;
-        }
-        const outp = bundler.BundleRaw(byteRanges);
-        return outp;
+        result.diagnostics = parser.diagnostics.concat(preprocessor.diagnostics, assembler.diagnostics);
+        result.segments = bundler.BundleSegments(byteRanges);
+        result.symbols = assembler.SymbolTable();
+        result.listing = byteRanges.map((range) => new ListingLine(range));
+        return result;
     }
 
-    public static hello() {
-        console.log("Hello HCAsm");
+    /** print the diagnostics with source excerpts, return the output blob or null on errors */
+    private static print(result: AsmResult, src: string, file: string, resolver: IFileResolver): Uint8Array|null {
+        if (result.diagnostics.length > 0) {
+            const formatter = new DiagnosticFormatter({ resolver });
+            if (src !== null) {
+                formatter.AddSource(file, src);
+            }
+            console.log(formatter.Format(result.diagnostics));
+        }
+        return result.HasErrors() ? null : result.Raw();
     }
 }
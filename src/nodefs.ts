@@ -0,0 +1,23 @@
+import * as fs from "fs";
+import { IFileResolver } from "./hcasm";
+
+/** a file resolver which loads files through the Node.js fs module */
+export class NodeFileResolver implements IFileResolver {
+    public ReadText(path: string): string {
+        try {
+            return fs.readFileSync(path, "utf8");
+        }
+        catch (e) {
+            return null;
+        }
+    }
+
+    public ReadBinary(path: string): Uint8Array {
+        try {
+            return new Uint8Array(fs.readFileSync(path));
+        }
+        catch (e) {
+            return null;
+        }
+    }
+}
@@ -2,7 +2,8 @@
  * this is basically the reverse of
  * https://github.com/floooh/chips-test/blob/master/tests/z80-test.c
  */
-import { Tokenizer, Parser, Assembler, HCAsm } from "./hcasm";
+import { Tokenizer, TokenKind, Parser, Preprocessor, Assembler, HCAsm, MemoryFileResolver,
+         Diagnostic, ErrorCode, Severity, DiagnosticFormatter, DiagnosticFormat, SymbolKind } from "./hcasm";
 import * as process from "process";
 import chalk from "chalk";
 
@@ -65,6 +66,65 @@ function test(name: string, blob: Uint8Array, expected: Uint8Array) {
     }
 }
 
+function testError(name: string, blob: Uint8Array) {
+    if (blob === null) {
+        ok(`${name}: OK`);
+    }
+    else {
+        err(`${name}: expected an error`);
+    }
+}
+
+/** run the pipeline up to the assembler and return the diagnostics of the first failing stage */
+function diagnose(src: string): Diagnostic[] {
+    const parser = new Parser();
+    const parsedItems = parser.Parse(new Tokenizer().Tokenize(src));
+    if (parser.HasErrors()) {
+        return parser.diagnostics;
+    }
+    const preprocessor = new Preprocessor();
+    const syntaxItems = preprocessor.Process(parsedItems);
+    if (preprocessor.HasErrors()) {
+        return preprocessor.diagnostics;
+    }
+    const assembler = new Assembler();
+    assembler.Assemble(syntaxItems);
+    return assembler.diagnostics;
+}
+
+/** return the diagnostics of a source file which includes file */
+function diagnose_file(file: string, resolver: MemoryFileResolver): Diagnostic[] {
+    const parser = new Parser();
+    const parsedItems = parser.Parse(new Tokenizer().Tokenize(`include "${file}"`));
+    const preprocessor = new Preprocessor(resolver);
+    const assembler = new Assembler();
+    assembler.Assemble(preprocessor.Process(parsedItems));
+    return assembler.diagnostics;
+}
+
+function testString(name: string, str: string, expected: string) {
+    if (str === expected) {
+        ok(`${name}: OK`);
+    }
+    else {
+        err(`${name}: expected:\n${expected}\ngot:\n${str}`);
+    }
+}
+
+function testDiagnostic(name: string, diags: Diagnostic[], code: ErrorCode, line: number, col: number, len: number) {
+    if (diags.length !== 1) {
+        err(`${name}: expected 1 diagnostic, got ${diags.length}`);
+        return;
+    }
+    const diag = diags[0];
+    if ((diag.severity !== Severity.Error) || (diag.code !== code) ||
+        (diag.line !== line) || (diag.col !== col) || (diag.len !== len)) {
+        err(`${name}: expected ${code} at ${line}:${col}+${len}, got ${diag.code} at ${diag.line}:${diag.col}+${diag.len}`);
+        return;
+    }
+    ok(`${name}: OK`);
+}
+
 function LD_r_sn() {
     const outp = HCAsm.AsmRaw(`
         z80
@@ -420,10 +480,10 @@ function LD_iIXIY_n() {
     const outp = HCAsm.AsmRaw(`
         LD IX,$2000
         LD (IX+2),$33
-        LD (IX+$FE),$11
+        LD (IX-2),$11
         LD IY,$1000
         LD (IY+1),$22
-        LD (IY+$FF),$44    
+        LD (IY-1),$44
     `);
     test("LD_iIXIY_n", outp, new Uint8Array([
         0xDD, 0x21, 0x00, 0x20,     // LD IX,0x2000
@@ -433,6 +493,8 @@ function LD_iIXIY_n() {
         0xFD, 0x36, 0x01, 0x22,     // LD (IY+1),0x22
         0xFD, 0x36, 0xFF, 0x44,     // LD (IY-1),0x44x
     ]));
+    testDiagnostic("LD_iIX_dRange", diagnose(`  ld (ix+200),1`), ErrorCode.ValueOutOfRange, 1, 6, 8);
+    testDiagnostic("LD_iIY_dRange", diagnose(`  ld a,(iy-129)`), ErrorCode.ValueOutOfRange, 1, 8, 8);
 }
 
 function LD_A_iBCDEnn() {
@@ -519,6 +581,8 @@ function LD_inn_HLddIXIY() {
         0xFD, 0x21, 0x65, 0x87,     // LD IY,0x8765
         0xFD, 0x22, 0x0C, 0x10,     // LD (0x100C),IY
     ]));
+    testDiagnostic("LD_HL_nnOverflow", diagnose(`  ld hl,$12345`), ErrorCode.ValueOutOfRange, 1, 9, 6);
+    testDiagnostic("LD_BC_nnOverflow", diagnose(`  ld bc,$10000*2`), ErrorCode.ValueOutOfRange, 1, 9, 8);
 }
 
 function LD_SP_HLIXIY() {
@@ -1039,6 +1103,1517 @@ function AND_iHLIXIY() {
     ]));
 }
 
+function ALU_A_x() {
+    const outp = HCAsm.AsmRaw(`
+        add a,b
+        adc a,$10
+        sub a,(hl)
+        sbc a,(ix+1)
+        and a,c
+        xor a,a
+        or a,(iy-1)
+        cp a,$20
+    `);
+    test("ALU_A_x", outp, new Uint8Array([
+        0x80,               // ADD A,B
+        0xCE, 0x10,         // ADC A,$10
+        0x96,               // SUB A,(HL)
+        0xDD, 0x9E, 0x01,   // SBC A,(IX+1)
+        0xA1,               // AND A,C
+        0xAF,               // XOR A,A
+        0xFD, 0xB6, 0xFF,   // OR A,(IY-1)
+        0xFE, 0x20,         // CP A,$20
+    ]));
+}
+
+function ALU16() {
+    const outp = HCAsm.AsmRaw(`
+        add hl,bc
+        add hl,de
+        add hl,hl
+        add hl,sp
+        adc hl,bc
+        adc hl,de
+        adc hl,hl
+        adc hl,sp
+        sbc hl,bc
+        sbc hl,de
+        sbc hl,hl
+        sbc hl,sp
+        add ix,bc
+        add ix,de
+        add ix,ix
+        add ix,sp
+        add iy,bc
+        add iy,de
+        add iy,iy
+        add iy,sp
+    `);
+    test("ALU16", outp, new Uint8Array([
+        0x09,           // ADD HL,BC
+        0x19,           // ADD HL,DE
+        0x29,           // ADD HL,HL
+        0x39,           // ADD HL,SP
+        0xED, 0x4A,     // ADC HL,BC
+        0xED, 0x5A,     // ADC HL,DE
+        0xED, 0x6A,     // ADC HL,HL
+        0xED, 0x7A,     // ADC HL,SP
+        0xED, 0x42,     // SBC HL,BC
+        0xED, 0x52,     // SBC HL,DE
+        0xED, 0x62,     // SBC HL,HL
+        0xED, 0x72,     // SBC HL,SP
+        0xDD, 0x09,     // ADD IX,BC
+        0xDD, 0x19,     // ADD IX,DE
+        0xDD, 0x29,     // ADD IX,IX
+        0xDD, 0x39,     // ADD IX,SP
+        0xFD, 0x09,     // ADD IY,BC
+        0xFD, 0x19,     // ADD IY,DE
+        0xFD, 0x29,     // ADD IY,IY
+        0xFD, 0x39,     // ADD IY,SP
+    ]));
+    testDiagnostic("ADD_IX_HL", diagnose(`  add ix,hl`), ErrorCode.InvalidOperand, 1, 10, 2);
+    testDiagnostic("ADD_IX_IY", diagnose(`  add ix,iy`), ErrorCode.InvalidOperand, 1, 10, 2);
+    testDiagnostic("ADD_HL_IX", diagnose(`  add hl,ix`), ErrorCode.InvalidOperand, 1, 10, 2);
+    testDiagnostic("SUB_HL_BC", diagnose(`  sub hl,bc`), ErrorCode.InvalidOperand, 1, 7, 2);
+    testDiagnostic("ADC_IX_BC", diagnose(`  adc ix,bc`), ErrorCode.InvalidOperand, 1, 7, 2);
+}
+
+function JP_JR() {
+    const outp = HCAsm.AsmRaw(`
+        org $0200
+    start:
+        jp skip
+        jp nz,start
+        jp z,start
+        jp nc,start
+        jp c,start
+        jp po,start
+        jp pe,start
+        jp p,start
+        jp m,start
+    skip:
+        jr skip
+        jr nz,start+$20
+        jr z,back
+        jr nc,fwd
+        jr c,fwd
+    back:
+        djnz back
+        jp (hl)
+        jp (ix)
+        jp (iy)
+        ld c,2
+    fwd:
+        nop
+    `);
+    test("JP_JR", outp, new Uint8Array([
+        0xC3, 0x1B, 0x02,   // JP skip
+        0xC2, 0x00, 0x02,   // JP NZ,start
+        0xCA, 0x00, 0x02,   // JP Z,start
+        0xD2, 0x00, 0x02,   // JP NC,start
+        0xDA, 0x00, 0x02,   // JP C,start
+        0xE2, 0x00, 0x02,   // JP PO,start
+        0xEA, 0x00, 0x02,   // JP PE,start
+        0xF2, 0x00, 0x02,   // JP P,start
+        0xFA, 0x00, 0x02,   // JP M,start
+        0x18, 0xFE,         // JR skip
+        0x20, 0x01,         // JR NZ,start+$20
+        0x28, 0x04,         // JR Z,back
+        0x30, 0x0B,         // JR NC,fwd
+        0x38, 0x09,         // JR C,fwd
+        0x10, 0xFE,         // DJNZ back
+        0xE9,               // JP (HL)
+        0xDD, 0xE9,         // JP (IX)
+        0xFD, 0xE9,         // JP (IY)
+        0x0E, 0x02,         // LD C,2
+        0x00,               // NOP
+    ]));
+    testDiagnostic("JR_OutOfRange", diagnose(`  jr far\n  org $1000\nfar:\n  nop`),
+        ErrorCode.BranchOutOfRange, 1, 6, 3);
+    testDiagnostic("JR_InvalidCondition", diagnose(`here:\n  jr pe,here`), ErrorCode.InvalidOperand, 2, 6, 2);
+}
+
+function CALL_RET_RST() {
+    const outp = HCAsm.AsmRaw(`
+        org $1000
+    subr:
+        call subr
+        call nz,subr
+        call z,subr
+        call nc,subr
+        call c,subr
+        call po,subr
+        call pe,subr
+        call p,subr
+        call m,subr
+        ret
+        ret nz
+        ret z
+        ret nc
+        ret c
+        ret po
+        ret pe
+        ret p
+        ret m
+        rst $00
+        rst $08
+        rst $38
+    `);
+    test("CALL_RET_RST", outp, new Uint8Array([
+        0xCD, 0x00, 0x10,   // CALL subr
+        0xC4, 0x00, 0x10,   // CALL NZ,subr
+        0xCC, 0x00, 0x10,   // CALL Z,subr
+        0xD4, 0x00, 0x10,   // CALL NC,subr
+        0xDC, 0x00, 0x10,   // CALL C,subr
+        0xE4, 0x00, 0x10,   // CALL PO,subr
+        0xEC, 0x00, 0x10,   // CALL PE,subr
+        0xF4, 0x00, 0x10,   // CALL P,subr
+        0xFC, 0x00, 0x10,   // CALL M,subr
+        0xC9,               // RET
+        0xC0,               // RET NZ
+        0xC8,               // RET Z
+        0xD0,               // RET NC
+        0xD8,               // RET C
+        0xE0,               // RET PO
+        0xE8,               // RET PE
+        0xF0,               // RET P
+        0xF8,               // RET M
+        0xC7,               // RST 0
+        0xCF,               // RST 8
+        0xFF,               // RST 38
+    ]));
+    testDiagnostic("RST_Invalid", diagnose(`  rst $09`), ErrorCode.ValueOutOfRange, 1, 7, 3);
+}
+
+function PUSH_POP() {
+    const outp = HCAsm.AsmRaw(`
+        push bc
+        push de
+        push hl
+        push af
+        push ix
+        push iy
+        pop af
+        pop hl
+        pop de
+        pop bc
+        pop iy
+        pop ix
+    `);
+    test("PUSH_POP", outp, new Uint8Array([
+        0xC5,           // PUSH BC
+        0xD5,           // PUSH DE
+        0xE5,           // PUSH HL
+        0xF5,           // PUSH AF
+        0xDD, 0xE5,     // PUSH IX
+        0xFD, 0xE5,     // PUSH IY
+        0xF1,           // POP AF
+        0xE1,           // POP HL
+        0xD1,           // POP DE
+        0xC1,           // POP BC
+        0xFD, 0xE1,     // POP IY
+        0xDD, 0xE1,     // POP IX
+    ]));
+    testDiagnostic("PUSH_Invalid", diagnose(`  push sp`), ErrorCode.InvalidOperand, 1, 8, 2);
+}
+
+function EX() {
+    const outp = HCAsm.AsmRaw(`
+        ex af,af'
+        ex de,hl
+        ex (sp),hl
+        ex (sp),ix
+        ex (sp),iy
+        EX AF,AF'
+    `);
+    test("EX", outp, new Uint8Array([
+        0x08,           // EX AF,AF'
+        0xEB,           // EX DE,HL
+        0xE3,           // EX (SP),HL
+        0xDD, 0xE3,     // EX (SP),IX
+        0xFD, 0xE3,     // EX (SP),IY
+        0x08,           // EX AF,AF'
+    ]));
+    testDiagnostic("EX_Invalid", diagnose(`  ex hl,de`), ErrorCode.InvalidOperand, 1, 3, 2);
+}
+
+function INC_DEC() {
+    const outp = HCAsm.AsmRaw(`
+        inc a
+        dec a
+        inc b
+        dec b
+        inc c
+        dec c
+        inc d
+        dec d
+        inc e
+        dec e
+        inc h
+        dec h
+        inc l
+        dec l
+        inc (hl)
+        dec (hl)
+        inc (ix+1)
+        dec (ix-1)
+        inc (iy+2)
+        dec (iy-2)
+        inc bc
+        dec bc
+        inc de
+        dec de
+        inc hl
+        dec hl
+        inc sp
+        dec sp
+        inc ix
+        dec ix
+        inc iy
+        dec iy
+    `);
+    test("INC_DEC", outp, new Uint8Array([
+        0x3C, 0x3D,             // INC A, DEC A
+        0x04, 0x05,             // INC B, DEC B
+        0x0C, 0x0D,             // INC C, DEC C
+        0x14, 0x15,             // INC D, DEC D
+        0x1C, 0x1D,             // INC E, DEC E
+        0x24, 0x25,             // INC H, DEC H
+        0x2C, 0x2D,             // INC L, DEC L
+        0x34, 0x35,             // INC (HL), DEC (HL)
+        0xDD, 0x34, 0x01,       // INC (IX+1)
+        0xDD, 0x35, 0xFF,       // DEC (IX-1)
+        0xFD, 0x34, 0x02,       // INC (IY+2)
+        0xFD, 0x35, 0xFE,       // DEC (IY-2)
+        0x03, 0x0B,             // INC BC, DEC BC
+        0x13, 0x1B,             // INC DE, DEC DE
+        0x23, 0x2B,             // INC HL, DEC HL
+        0x33, 0x3B,             // INC SP, DEC SP
+        0xDD, 0x23, 0xDD, 0x2B, // INC IX, DEC IX
+        0xFD, 0x23, 0xFD, 0x2B, // INC IY, DEC IY
+    ]));
+}
+
+function ROT_SHIFT() {
+    const outp = HCAsm.AsmRaw(`
+        rlc b
+        rrc c
+        rl d
+        rr e
+        sla h
+        sra l
+        srl a
+        rlc (hl)
+        rr (hl)
+        srl (hl)
+        rl (ix+1)
+        sra (iy-1)
+        rlca
+        rla
+        rrca
+        rra
+    `);
+    test("ROT_SHIFT", outp, new Uint8Array([
+        0xCB, 0x00,             // RLC B
+        0xCB, 0x09,             // RRC C
+        0xCB, 0x12,             // RL D
+        0xCB, 0x1B,             // RR E
+        0xCB, 0x24,             // SLA H
+        0xCB, 0x2D,             // SRA L
+        0xCB, 0x3F,             // SRL A
+        0xCB, 0x06,             // RLC (HL)
+        0xCB, 0x1E,             // RR (HL)
+        0xCB, 0x3E,             // SRL (HL)
+        0xDD, 0xCB, 0x01, 0x16, // RL (IX+1)
+        0xFD, 0xCB, 0xFF, 0x2E, // SRA (IY-1)
+        0x07,                   // RLCA
+        0x17,                   // RLA
+        0x0F,                   // RRCA
+        0x1F,                   // RRA
+    ]));
+    testDiagnostic("ROT_Invalid", diagnose(`  rl (bc)`), ErrorCode.InvalidOperand, 1, 6, 4);
+}
+
+function BIT_SET_RES() {
+    const outp = HCAsm.AsmRaw(`
+        bit 0,a
+        bit 7,b
+        bit 3,(hl)
+        bit 5,(ix+2)
+        set 0,c
+        set 6,(hl)
+        set 7,(iy-2)
+        res 1,d
+        res 4,(hl)
+        res 2,(ix+0)
+    `);
+    test("BIT_SET_RES", outp, new Uint8Array([
+        0xCB, 0x47,             // BIT 0,A
+        0xCB, 0x78,             // BIT 7,B
+        0xCB, 0x5E,             // BIT 3,(HL)
+        0xDD, 0xCB, 0x02, 0x6E, // BIT 5,(IX+2)
+        0xCB, 0xC1,             // SET 0,C
+        0xCB, 0xF6,             // SET 6,(HL)
+        0xFD, 0xCB, 0xFE, 0xFE, // SET 7,(IY-2)
+        0xCB, 0x8A,             // RES 1,D
+        0xCB, 0xA6,             // RES 4,(HL)
+        0xDD, 0xCB, 0x00, 0x96, // RES 2,(IX+0)
+    ]));
+    testDiagnostic("BIT_IndexRange", diagnose(`  bit 8,a`), ErrorCode.ValueOutOfRange, 1, 7, 1);
+    testDiagnostic("SET_IndexNegative", diagnose(`  set -1,(hl)`), ErrorCode.ValueOutOfRange, 1, 7, 2);
+}
+
+function IN_OUT_IM() {
+    const outp = HCAsm.AsmRaw(`
+        const port,$88
+        in a,(c)
+        in b,(c)
+        in l,(c)
+        in a,($FE)
+        in a,(port)
+        out (c),a
+        out (c),d
+        out (c),h
+        out ($FE),a
+        out (port+1),a
+        im 0
+        im 1
+        im 2
+    `);
+    test("IN_OUT_IM", outp, new Uint8Array([
+        0xED, 0x78,     // IN A,(C)
+        0xED, 0x40,     // IN B,(C)
+        0xED, 0x68,     // IN L,(C)
+        0xDB, 0xFE,     // IN A,($FE)
+        0xDB, 0x88,     // IN A,(port)
+        0xED, 0x79,     // OUT (C),A
+        0xED, 0x51,     // OUT (C),D
+        0xED, 0x61,     // OUT (C),H
+        0xD3, 0xFE,     // OUT ($FE),A
+        0xD3, 0x89,     // OUT (port+1),A
+        0xED, 0x46,     // IM 0
+        0xED, 0x56,     // IM 1
+        0xED, 0x5E,     // IM 2
+    ]));
+    testDiagnostic("IN_InvalidDst", diagnose(`  in b,($FE)`), ErrorCode.InvalidOperand, 1, 6, 1);
+    testDiagnostic("OUT_PortOverflow", diagnose(`  out ($100),a`), ErrorCode.ValueOutOfRange, 1, 7, 6);
+    testDiagnostic("OUT_InvalidSrc", diagnose(`  out ($10),b`), ErrorCode.InvalidOperand, 1, 13, 1);
+    testDiagnostic("IM_Invalid", diagnose(`  im 3`), ErrorCode.ValueOutOfRange, 1, 6, 1);
+}
+
+function Undocumented() {
+    const outp = HCAsm.AsmRaw(`
+        undoc
+        ld a,ixh
+        ld b,ixl
+        ld ixh,c
+        ld ixl,a
+        ld ixh,ixl
+        ld iyl,iyh
+        ld ixh,$12
+        ld iyl,$34
+        add a,ixh
+        sub ixl
+        and iyh
+        cp iyl
+        adc a,iyl
+        inc ixh
+        dec iyl
+        sll b
+        sl1 (hl)
+        sll (ix+1)
+        out (c),0
+        rlc (ix+2),b
+        srl (iy-1),a
+        set 7,(ix+3),c
+        res 0,(iy+4),l
+    `);
+    test("Undocumented", outp, new Uint8Array([
+        0xDD, 0x7C,             // LD A,IXH
+        0xDD, 0x45,             // LD B,IXL
+        0xDD, 0x61,             // LD IXH,C
+        0xDD, 0x6F,             // LD IXL,A
+        0xDD, 0x65,             // LD IXH,IXL
+        0xFD, 0x6C,             // LD IYL,IYH
+        0xDD, 0x26, 0x12,       // LD IXH,$12
+        0xFD, 0x2E, 0x34,       // LD IYL,$34
+        0xDD, 0x84,             // ADD A,IXH
+        0xDD, 0x95,             // SUB IXL
+        0xFD, 0xA4,             // AND IYH
+        0xFD, 0xBD,             // CP IYL
+        0xFD, 0x8D,             // ADC A,IYL
+        0xDD, 0x24,             // INC IXH
+        0xFD, 0x2D,             // DEC IYL
+        0xCB, 0x30,             // SLL B
+        0xCB, 0x36,             // SL1 (HL)
+        0xDD, 0xCB, 0x01, 0x36, // SLL (IX+1)
+        0xED, 0x71,             // OUT (C),0
+        0xDD, 0xCB, 0x02, 0x00, // RLC (IX+2),B
+        0xFD, 0xCB, 0xFF, 0x3F, // SRL (IY-1),A
+        0xDD, 0xCB, 0x03, 0xF9, // SET 7,(IX+3),C
+        0xFD, 0xCB, 0x04, 0x85, // RES 0,(IY+4),L
+    ]));
+    testDiagnostic("Undocumented_LD_Strict", diagnose(`  ld a,ixh`), ErrorCode.UndocumentedInstruction, 1, 3, 2);
+    testDiagnostic("Undocumented_SLL_Strict", diagnose(`  sll b`), ErrorCode.UndocumentedInstruction, 1, 3, 3);
+    testDiagnostic("Undocumented_OUT_Strict", diagnose(`  out (c),0`), ErrorCode.UndocumentedInstruction, 1, 3, 3);
+    testDiagnostic("Undocumented_RLC_Strict", diagnose(`  rlc (ix+1),b`), ErrorCode.UndocumentedInstruction, 1, 3, 3);
+    testDiagnostic("Undocumented_LD_IXH_H", diagnose(`  undoc\n  ld ixh,h`), ErrorCode.InvalidOperand, 2, 3, 2);
+    testDiagnostic("Undocumented_LD_IXH_IYL", diagnose(`  undoc\n  ld ixh,iyl`), ErrorCode.InvalidOperand, 2, 3, 2);
+    testDiagnostic("Undocumented_BIT_Copy", diagnose(`  undoc\n  bit 0,(ix+1),a`), ErrorCode.InvalidOperand, 2, 16, 1);
+}
+
+function M6502_AddrModes() {
+    const outp = HCAsm.AsmRaw(`
+        m6502
+        org $1000
+        const zp,$80
+        const abs,$1234
+        lda #$12
+        lda #<abs
+        lda zp
+        lda zp,x
+        lda abs
+        lda abs,x
+        lda abs,y
+        lda (zp,x)
+        lda (zp),y
+        ldx zp,y
+        ldx abs,y
+        lda zp,y
+        sta zp
+        sta abs
+        asl a
+        asl
+        rol zp
+        ror abs,x
+        jmp abs
+        jmp (abs)
+        jsr abs
+    `);
+    test("M6502_AddrModes", outp, new Uint8Array([
+        0xA9, 0x12,             // LDA #$12
+        0xA9, 0x34,             // LDA #<abs
+        0xA5, 0x80,             // LDA zp
+        0xB5, 0x80,             // LDA zp,X
+        0xAD, 0x34, 0x12,       // LDA abs
+        0xBD, 0x34, 0x12,       // LDA abs,X
+        0xB9, 0x34, 0x12,       // LDA abs,Y
+        0xA1, 0x80,             // LDA (zp,X)
+        0xB1, 0x80,             // LDA (zp),Y
+        0xB6, 0x80,             // LDX zp,Y
+        0xBE, 0x34, 0x12,       // LDX abs,Y
+        0xB9, 0x80, 0x00,       // LDA zp,Y (no zero page mode)
+        0x85, 0x80,             // STA zp
+        0x8D, 0x34, 0x12,       // STA abs
+        0x0A,                   // ASL A
+        0x0A,                   // ASL
+        0x26, 0x80,             // ROL zp
+        0x7E, 0x34, 0x12,       // ROR abs,X
+        0x4C, 0x34, 0x12,       // JMP abs
+        0x6C, 0x34, 0x12,       // JMP (abs)
+        0x20, 0x34, 0x12,       // JSR abs
+    ]));
+    testDiagnostic("M6502_InvalidMode", diagnose(`  m6502\n  stx $1234,x`), ErrorCode.InvalidOperand, 2, 3, 3);
+    testDiagnostic("M6502_ImmOverflow", diagnose(`  m6502\n  lda #$100`), ErrorCode.ValueOutOfRange, 2, 7, 5);
+    testDiagnostic("M6502_IndirectNotZeroPage", diagnose(`  m6502\n  lda ($1234),y`),
+        ErrorCode.ValueOutOfRange, 2, 7, 7);
+}
+
+function M6502_Implied() {
+    const outp = HCAsm.AsmRaw(`
+        m6502
+        brk
+        clc
+        cld
+        cli
+        clv
+        dex
+        dey
+        inx
+        iny
+        nop
+        pha
+        php
+        pla
+        plp
+        rti
+        rts
+        sec
+        sed
+        sei
+        tax
+        tay
+        tsx
+        txa
+        txs
+        tya
+    `);
+    test("M6502_Implied", outp, new Uint8Array([
+        0x00, 0x18, 0xD8, 0x58, 0xB8, 0xCA, 0x88, 0xE8, 0xC8, 0xEA,
+        0x48, 0x08, 0x68, 0x28, 0x40, 0x60, 0x38, 0xF8, 0x78, 0xAA,
+        0xA8, 0xBA, 0x8A, 0x9A, 0x98,
+    ]));
+}
+
+function M6502_ALU() {
+    const outp = HCAsm.AsmRaw(`
+        m6502
+        adc #1
+        sbc #2
+        and #3
+        ora #4
+        eor #5
+        cmp #6
+        cpx #7
+        cpy #8
+        bit $10
+        bit $1000
+        inc $10
+        dec $1000,x
+    `);
+    test("M6502_ALU", outp, new Uint8Array([
+        0x69, 0x01,         // ADC #1
+        0xE9, 0x02,         // SBC #2
+        0x29, 0x03,         // AND #3
+        0x09, 0x04,         // ORA #4
+        0x49, 0x05,         // EOR #5
+        0xC9, 0x06,         // CMP #6
+        0xE0, 0x07,         // CPX #7
+        0xC0, 0x08,         // CPY #8
+        0x24, 0x10,         // BIT $10
+        0x2C, 0x00, 0x10,   // BIT $1000
+        0xE6, 0x10,         // INC $10
+        0xDE, 0x00, 0x10,   // DEC $1000,X
+    ]));
+}
+
+function M6502_Branches() {
+    const outp = HCAsm.AsmRaw(`
+        m6502
+        org $C000
+    loop:
+        bne loop
+        beq done
+        bcc loop
+        bcs done
+        bmi loop
+        bpl done
+        bvc loop
+        bvs done
+        lda data
+    done:
+        rts
+    data:
+        db 0
+    `);
+    test("M6502_Branches", outp, new Uint8Array([
+        0xD0, 0xFE,         // BNE loop
+        0xF0, 0x0F,         // BEQ done
+        0x90, 0xFA,         // BCC loop
+        0xB0, 0x0B,         // BCS done
+        0x30, 0xF6,         // BMI loop
+        0x10, 0x07,         // BPL done
+        0x50, 0xF2,         // BVC loop
+        0x70, 0x03,         // BVS done
+        0xAD, 0x14, 0xC0,   // LDA data (forward reference, absolute)
+        0x60,               // RTS
+        0x00,               // DB 0
+    ]));
+    testDiagnostic("M6502_BranchOutOfRange", diagnose(`  m6502\n  bne far\n  org $1000\nfar:\n  rts`),
+        ErrorCode.BranchOutOfRange, 2, 7, 3);
+}
+
+function M65C02() {
+    const outp = HCAsm.AsmRaw(`
+        m65c02
+        org $0200
+    start:
+        bra start
+        phx
+        phy
+        plx
+        ply
+        stz $10
+        stz $10,x
+        stz $1234
+        stz $1234,x
+        trb $10
+        tsb $1234
+        lda ($10)
+        sta ($20)
+        adc ($30)
+        bit #$40
+        bit $10,x
+        inc
+        dec a
+        jmp ($1234,x)
+        jmp ($1234)
+        lda ($10,x)
+        rmb0 $10
+        smb7 $20
+        bbr0 $10,start
+        bbs7 $20,start
+    `);
+    test("M65C02", outp, new Uint8Array([
+        0x80, 0xFE,             // BRA start
+        0xDA,                   // PHX
+        0x5A,                   // PHY
+        0xFA,                   // PLX
+        0x7A,                   // PLY
+        0x64, 0x10,             // STZ $10
+        0x74, 0x10,             // STZ $10,X
+        0x9C, 0x34, 0x12,       // STZ $1234
+        0x9E, 0x34, 0x12,       // STZ $1234,X
+        0x14, 0x10,             // TRB $10
+        0x0C, 0x34, 0x12,       // TSB $1234
+        0xB2, 0x10,             // LDA ($10)
+        0x92, 0x20,             // STA ($20)
+        0x72, 0x30,             // ADC ($30)
+        0x89, 0x40,             // BIT #$40
+        0x34, 0x10,             // BIT $10,X
+        0x1A,                   // INC
+        0x3A,                   // DEC A
+        0x7C, 0x34, 0x12,       // JMP ($1234,X)
+        0x6C, 0x34, 0x12,       // JMP ($1234)
+        0xA1, 0x10,             // LDA ($10,X)
+        0x07, 0x10,             // RMB0 $10
+        0xF7, 0x20,             // SMB7 $20
+        0x0F, 0x10, 0xD0,       // BBR0 $10,start
+        0xFF, 0x20, 0xCD,       // BBS7 $20,start
+    ]));
+    testDiagnostic("M65C02_NotIn6502", diagnose(`  m6502\n  stz $10`), ErrorCode.SyntaxError, 2, 3, 3);
+    testDiagnostic("M65C02_ZeroPageIndirectIn6502", diagnose(`  m6502\n  lda ($10)`),
+        ErrorCode.InvalidOperand, 2, 3, 3);
+    testDiagnostic("M65C02_BBROutOfRange", diagnose(`  m65c02\n  bbr0 $10,far\n  org $1000\nfar:\n  rts`),
+        ErrorCode.BranchOutOfRange, 2, 12, 3);
+}
+
+function M6510_Illegal() {
+    const outp = HCAsm.AsmRaw(`
+        m6510
+        lax $10
+        lax $10,y
+        lax $1234
+        lax $1234,y
+        lax ($10,x)
+        lax ($10),y
+        sax $10
+        sax $10,y
+        sax $1234
+        sax ($10,x)
+        slo $10
+        rla $10,x
+        sre $1234
+        rra $1234,x
+        dcp $1234,y
+        isc ($10,x)
+        dcp ($10),y
+        anc #$01
+        alr #$02
+        arr #$03
+        sbx #$04
+        lda #$05
+    `);
+    test("M6510_Illegal", outp, new Uint8Array([
+        0xA7, 0x10,             // LAX $10
+        0xB7, 0x10,             // LAX $10,Y
+        0xAF, 0x34, 0x12,       // LAX $1234
+        0xBF, 0x34, 0x12,       // LAX $1234,Y
+        0xA3, 0x10,             // LAX ($10,X)
+        0xB3, 0x10,             // LAX ($10),Y
+        0x87, 0x10,             // SAX $10
+        0x97, 0x10,             // SAX $10,Y
+        0x8F, 0x34, 0x12,       // SAX $1234
+        0x83, 0x10,             // SAX ($10,X)
+        0x07, 0x10,             // SLO $10
+        0x37, 0x10,             // RLA $10,X
+        0x4F, 0x34, 0x12,       // SRE $1234
+        0x7F, 0x34, 0x12,       // RRA $1234,X
+        0xDB, 0x34, 0x12,       // DCP $1234,Y
+        0xE3, 0x10,             // ISC ($10,X)
+        0xD3, 0x10,             // DCP ($10),Y
+        0x0B, 0x01,             // ANC #$01
+        0x4B, 0x02,             // ALR #$02
+        0x6B, 0x03,             // ARR #$03
+        0xCB, 0x04,             // SBX #$04
+        0xA9, 0x05,             // LDA #$05
+    ]));
+    testDiagnostic("M6510_NotIn6502", diagnose(`  m6502\n  lax $10`), ErrorCode.SyntaxError, 2, 3, 3);
+}
+
+function I8080() {
+    const outp = HCAsm.AsmRaw(`
+        i8080
+        org $100
+    start:
+        mov a,b
+        mov m,a
+        mov e,m
+        mvi c,$12
+        mvi m,$34
+        lxi h,$1234
+        lxi sp,$8000
+        lda $1234
+        sta $1234
+        lhld $1234
+        shld $1234
+        ldax b
+        stax d
+        xchg
+        add c
+        sbb m
+        cmp a
+        adi $01
+        cpi $02
+        inr a
+        dcr m
+        inx d
+        dcx sp
+        dad b
+        daa
+        cma
+        rlc
+        rar
+        jmp start
+        jnz start
+        call start
+        cpe start
+        ret
+        rm
+        rst 7
+        pchl
+        push psw
+        pop b
+        xthl
+        sphl
+        in $10
+        out $20
+        ei
+        di
+        hlt
+        nop
+    `);
+    test("I8080", outp, new Uint8Array([
+        0x78,                   // MOV A,B
+        0x77,                   // MOV M,A
+        0x5E,                   // MOV E,M
+        0x0E, 0x12,             // MVI C,$12
+        0x36, 0x34,             // MVI M,$34
+        0x21, 0x34, 0x12,       // LXI H,$1234
+        0x31, 0x00, 0x80,       // LXI SP,$8000
+        0x3A, 0x34, 0x12,       // LDA $1234
+        0x32, 0x34, 0x12,       // STA $1234
+        0x2A, 0x34, 0x12,       // LHLD $1234
+        0x22, 0x34, 0x12,       // SHLD $1234
+        0x0A,                   // LDAX B
+        0x12,                   // STAX D
+        0xEB,                   // XCHG
+        0x81,                   // ADD C
+        0x9E,                   // SBB M
+        0xBF,                   // CMP A
+        0xC6, 0x01,             // ADI $01
+        0xFE, 0x02,             // CPI $02
+        0x3C,                   // INR A
+        0x35,                   // DCR M
+        0x13,                   // INX D
+        0x3B,                   // DCX SP
+        0x09,                   // DAD B
+        0x27,                   // DAA
+        0x2F,                   // CMA
+        0x07,                   // RLC
+        0x1F,                   // RAR
+        0xC3, 0x00, 0x01,       // JMP start
+        0xC2, 0x00, 0x01,       // JNZ start
+        0xCD, 0x00, 0x01,       // CALL start
+        0xEC, 0x00, 0x01,       // CPE start
+        0xC9,                   // RET
+        0xF8,                   // RM
+        0xFF,                   // RST 7
+        0xE9,                   // PCHL
+        0xF5,                   // PUSH PSW
+        0xC1,                   // POP B
+        0xE3,                   // XTHL
+        0xF9,                   // SPHL
+        0xDB, 0x10,             // IN $10
+        0xD3, 0x20,             // OUT $20
+        0xFB,                   // EI
+        0xF3,                   // DI
+        0x76,                   // HLT
+        0x00,                   // NOP
+    ]));
+    testDiagnostic("I8080_MovMM", diagnose(`i8080\n  mov m,m`), ErrorCode.InvalidOperand, 2, 3, 3);
+    testDiagnostic("I8080_PushSP", diagnose(`i8080\n  push sp`), ErrorCode.InvalidOperand, 2, 8, 2);
+    testDiagnostic("I8080_LdaxH", diagnose(`i8080\n  ldax h`), ErrorCode.InvalidOperand, 2, 8, 1);
+    testDiagnostic("I8080_Rst", diagnose(`i8080\n  rst 8`), ErrorCode.ValueOutOfRange, 2, 7, 1);
+    testDiagnostic("I8080_Z80Mnemonic", diagnose(`i8080\n  ld a,b`), ErrorCode.SyntaxError, 2, 3, 2);
+    testDiagnostic("I8080_MviReg", diagnose(`i8080\n  mvi a,b`), ErrorCode.InvalidOperand, 2, 9, 1);
+    testDiagnostic("I8080_LxiReg", diagnose(`i8080\n  lxi h,m`), ErrorCode.InvalidOperand, 2, 9, 1);
+}
+
+function SM83() {
+    const outp = HCAsm.AsmRaw(`
+        sm83
+        org $150
+    start:
+        ld a,b
+        ld (hl),$12
+        ld bc,$1234
+        ld a,($c000)
+        ld ($c000),a
+        ld ($c000),sp
+        ld (hl+),a
+        ld a,(hl+)
+        ld (hl-),a
+        ld a,(hl-)
+        ld (c),a
+        ld a,(c)
+        ld hl,sp+5
+        ld hl,sp-2
+        ldh ($80),a
+        ldh a,($ff44)
+        add sp,-4
+        add hl,de
+        swap a
+        swap (hl)
+        stop
+        halt
+        reti
+        jp nz,start
+        jr c,start
+        call z,start
+        ret nc
+        rst $38
+        push af
+    `);
+    test("SM83", outp, new Uint8Array([
+        0x78,                   // LD A,B
+        0x36, 0x12,             // LD (HL),$12
+        0x01, 0x34, 0x12,       // LD BC,$1234
+        0xFA, 0x00, 0xC0,       // LD A,($C000)
+        0xEA, 0x00, 0xC0,       // LD ($C000),A
+        0x08, 0x00, 0xC0,       // LD ($C000),SP
+        0x22,                   // LD (HL+),A
+        0x2A,                   // LD A,(HL+)
+        0x32,                   // LD (HL-),A
+        0x3A,                   // LD A,(HL-)
+        0xE2,                   // LD (C),A
+        0xF2,                   // LD A,(C)
+        0xF8, 0x05,             // LD HL,SP+5
+        0xF8, 0xFE,             // LD HL,SP-2
+        0xE0, 0x80,             // LDH ($80),A
+        0xF0, 0x44,             // LDH A,($FF44)
+        0xE8, 0xFC,             // ADD SP,-4
+        0x19,                   // ADD HL,DE
+        0xCB, 0x37,             // SWAP A
+        0xCB, 0x36,             // SWAP (HL)
+        0x10, 0x00,             // STOP
+        0x76,                   // HALT
+        0xD9,                   // RETI
+        0xC2, 0x50, 0x01,       // JP NZ,start
+        0x38, 0xD3,             // JR C,start
+        0xCC, 0x50, 0x01,       // CALL Z,start
+        0xD0,                   // RET NC
+        0xFF,                   // RST $38
+        0xF5,                   // PUSH AF
+    ]));
+    testDiagnostic("SM83_NoIX", diagnose(`sm83\n  ld a,(ix+1)`), ErrorCode.UndefinedSymbol, 2, 8, 6);
+    testDiagnostic("SM83_NoEXX", diagnose(`sm83\n  exx`), ErrorCode.SyntaxError, 2, 3, 3);
+    testDiagnostic("SM83_LD16Indirect", diagnose(`sm83\n  ld hl,($c000)`), ErrorCode.InvalidOperand, 2, 3, 2);
+    testDiagnostic("SM83_Condition", diagnose(`sm83\n  jp pe,$0000`), ErrorCode.InvalidOperand, 2, 6, 2);
+    testDiagnostic("SM83_ADC16", diagnose(`sm83\n  adc hl,de`), ErrorCode.InvalidOperand, 2, 7, 2);
+    testDiagnostic("SM83_ADC16Index", diagnose(`sm83\n  adc hl,ix`), ErrorCode.InvalidOperand, 2, 7, 2);
+    testDiagnostic("SM83_RetCondition", diagnose(`sm83\n  ret po`), ErrorCode.InvalidOperand, 2, 7, 2);
+    testDiagnostic("SM83_LDH", diagnose(`sm83\n  ldh ($1234),a`), ErrorCode.InvalidOperand, 2, 3, 3);
+    testDiagnostic("SM83_HLPlusInZ80", diagnose(`z80\n  ld (hl+),a`), ErrorCode.ExpectedBracket, 2, 9, 1);
+    testDiagnostic("SM83_AddSPReg", diagnose(`sm83\n  add sp,a`), ErrorCode.InvalidOperand, 2, 10, 1);
+    testDiagnostic("SM83_AddSPiHL", diagnose(`sm83\n  add sp,(hl)`), ErrorCode.InvalidOperand, 2, 10, 4);
+}
+
+function CPU_Switch() {
+    const outp = HCAsm.AsmRaw(`
+        z80
+        const lda,$12
+        ld a,lda
+        and a
+        inc a
+        m6502
+        const b,$34
+        lda #b
+        and #b
+        inc b
+        ldx #done
+        z80
+        inc b
+        bit 0,a
+        db done
+    done:
+    `);
+    test("CPU_Switch", outp, new Uint8Array([
+        0x3E, 0x12,     // LD A,lda
+        0xA7,           // AND A
+        0x3C,           // INC A
+        0xA9, 0x34,     // LDA #b
+        0x29, 0x34,     // AND #b
+        0xE6, 0x34,     // INC b
+        0xA2, 0x10,     // LDX #done
+        0x04,           // INC B
+        0xCB, 0x47,     // BIT 0,A
+        0x10,           // DB done
+    ]));
+    const files = new MemoryFileResolver({
+        "/src/main.asm": `
+            m6502
+            include "inc.asm"
+            z80
+            include "inc.asm"
+        `,
+        "/src/inc.asm": `
+            nop
+        `,
+    });
+    test("CPU_Include", HCAsm.AsmFile("/src/main.asm", files), new Uint8Array([
+        0xEA,           // NOP (6502)
+        0x00,           // NOP (Z80)
+    ]));
+    testDiagnostic("CPU_Z80RegisterIn6502", diagnose(`  m6502\n  ld a,b`), ErrorCode.SyntaxError, 2, 3, 2);
+    testDiagnostic("CPU_6502MacroInZ80", HCAsm.Assemble(`m6502\nmacro m\n  lda #1\nendm\nz80\n  m`).diagnostics,
+        ErrorCode.InvalidInstruction, 3, 3, 3);
+    testDiagnostic("CPU_Z80MacroIn6502", diagnose(`z80\nmacro m\n  ld a,1\nendm\nm6502\n  m`),
+        ErrorCode.InvalidInstruction, 3, 3, 2);
+    testDiagnostic("CPU_Z80MacroInSM83", diagnose(`macro m\n  exx\nendm\nsm83\n  m`),
+        ErrorCode.InvalidInstruction, 2, 3, 3);
+    testDiagnostic("CPU_KeywordInMacro", HCAsm.Assemble(`macro to6502\n  m6502\nendm\n  to6502\n  ld a,1`).diagnostics,
+        ErrorCode.InvalidMacro, 2, 3, 5);
+}
+
+function Labels() {
+    const outp = HCAsm.AsmRaw(`
+        org $100
+    start:
+        ld hl,data
+        ld a,(data)
+        ld (store),a
+        ld de,start
+    data:
+        nop
+    store:
+        nop
+    `);
+    test("Labels", outp, new Uint8Array([
+        0x21, 0x0C, 0x01,   // LD HL,data
+        0x3A, 0x0C, 0x01,   // LD A,(data)
+        0x32, 0x0D, 0x01,   // LD (store),A
+        0x11, 0x00, 0x01,   // LD DE,start
+        0x00,               // data: NOP
+        0x00,               // store: NOP
+    ]));
+}
+
+function Labels_Errors() {
+    testError("Labels_Undefined", HCAsm.AsmRaw(`
+        ld hl,nowhere
+    `));
+    testError("Labels_Duplicate", HCAsm.AsmRaw(`
+    loop:
+        nop
+    loop:
+        nop
+    `));
+    testDiagnostic("Org_Register", diagnose(`  org a`), ErrorCode.InvalidOperand, 1, 7, 1);
+    testDiagnostic("Org_String", diagnose(`  org "x"`), ErrorCode.InvalidOperand, 1, 7, 3);
+    testDiagnostic("Org_Overflow", diagnose(`  org $12345`), ErrorCode.ValueOutOfRange, 1, 7, 6);
+}
+
+function Expressions() {
+    const outp = HCAsm.AsmRaw(`
+        org $800+$800
+    table:
+        ld hl,table+2*3
+        ld a,(1+2)*3
+        ld a,-1
+        ld a,~$0F & $FF
+        ld a,1<<4|2
+        ld a,$F0>>4 ^ 1
+        ld a,17 % 5
+        ld a,100/7
+        ld de,(table+2)
+        ld ix,table
+        ld (ix+1+1),a
+        ld (ix-table+table-2),b
+    `);
+    test("Expressions", outp, new Uint8Array([
+        0x21, 0x06, 0x10,           // LD HL,0x1006
+        0x3E, 0x09,                 // LD A,0x09
+        0x3E, 0xFF,                 // LD A,0xFF
+        0x3E, 0xF0,                 // LD A,0xF0
+        0x3E, 0x12,                 // LD A,0x12
+        0x3E, 0x0E,                 // LD A,0x0E
+        0x3E, 0x02,                 // LD A,0x02
+        0x3E, 0x0E,                 // LD A,0x0E
+        0xED, 0x5B, 0x02, 0x10,     // LD DE,(0x1002)
+        0xDD, 0x21, 0x00, 0x10,     // LD IX,0x1000
+        0xDD, 0x77, 0x02,           // LD (IX+2),A
+        0xDD, 0x70, 0xFE,           // LD (IX-2),B
+    ]));
+    testError("Expressions_DivZero", HCAsm.AsmRaw(`
+        ld a,1/0
+    `));
+    testError("Expressions_Syntax", HCAsm.AsmRaw(`
+        ld a,(1+2
+    `));
+}
+
+function LoHi() {
+    const outp = HCAsm.AsmRaw(`
+        org $1234
+        ld a,<table
+        ld b,>table
+        ld c,LOW(table+$10)
+        ld d,HIGH(table+$10)
+        ld e,<(table >> 4)
+    table:
+        ld hl,>table<<8|<table
+    `);
+    test("LoHi", outp, new Uint8Array([
+        0x3E, 0x3E,         // LD A,0x3E
+        0x06, 0x12,         // LD B,0x12
+        0x0E, 0x4E,         // LD C,0x4E
+        0x16, 0x12,         // LD D,0x12
+        0x1E, 0x23,         // LD E,0x23
+        0x21, 0x3E, 0x12,   // LD HL,0x123E
+    ]));
+}
+
+function DB_DW() {
+    const outp = HCAsm.AsmRaw(`
+        org $4000
+    bytes:
+        db 1, 2, $FF, -1, <words, "AB"
+    words:
+        dw $1234, bytes, words+2, -2
+        db 7
+    `);
+    test("DB_DW", outp, new Uint8Array([
+        0x01, 0x02, 0xFF, 0xFF, 0x07, 0x41, 0x42,
+        0x34, 0x12, 0x00, 0x40, 0x09, 0x40, 0xFE, 0xFF,
+        0x07,
+    ]));
+    testError("DB_Overflow", HCAsm.AsmRaw(`
+        db 256
+    `));
+    testError("DW_String", HCAsm.AsmRaw(`
+        dw "AB"
+    `));
+}
+
+function Strings() {
+    const outp = HCAsm.AsmRaw(`
+        db "Hello\\n\\"x\\"\\x7f\\0\\\\\\t\\r"
+    `);
+    test("Strings", outp, new Uint8Array([
+        0x48, 0x65, 0x6C, 0x6C, 0x6F, 0x0A,     // Hello\n
+        0x22, 0x78, 0x22, 0x7F, 0x00,           // "x"\x7F\0
+        0x5C, 0x09, 0x0D,                       // \\\t\r
+    ]));
+    testError("Strings_Unterminated", HCAsm.AsmRaw(`
+        db "Hello
+        nop
+    `));
+    testError("Strings_InvalidEscape", HCAsm.AsmRaw(`
+        db "\\q"
+    `));
+}
+
+function Charsets() {
+    const outp = HCAsm.AsmRaw(`
+        db "Ab", 'c'
+        charset petscii
+        db "Ab\\n", 'c'
+        charset screen
+        db "Ab@", 'c'
+        charset kc85
+        db "\u00c4\u00df"
+        charset custom, new
+        charmap "0123456789", $30+$80
+        db "42", '1'
+        charset ascii
+        ld a,'1'
+        charset custom
+        db "7"
+    `);
+    test("Charsets", outp, new Uint8Array([
+        0x41, 0x62, 0x63,           // ASCII
+        0xC1, 0x42, 0x0D, 0x43,     // PETSCII
+        0x41, 0x02, 0x00, 0x03,     // screen codes
+        0x5B, 0x7E,                 // KC85
+        0xB4, 0xB2, 0xB1,           // custom
+        0x3E, 0x31,                 // LD A,'1'
+        0xB7,                       // custom again
+    ]));
+    testError("Charsets_Unmapped", HCAsm.AsmRaw(`
+        db "\u2191"
+    `));
+    testDiagnostic("Charsets_Unknown", diagnose(`  charset petsci`), ErrorCode.InvalidCharset, 1, 11, 6);
+    testDiagnostic("Charsets_Redefine", diagnose(`  charset kc85, new`), ErrorCode.InvalidCharset, 1, 11, 4);
+}
+
+function Constants() {
+    const outp = HCAsm.AsmRaw(`
+        const ENTRY_SIZE, 4
+        org BASE
+        ld hl,table+2*ENTRY_SIZE
+        ld a,COUNT
+        ld b,LAST
+    BASE equ $1000
+    COUNT = (tend-table)/ENTRY_SIZE
+    table:
+        db 1,2,3,4,5,6,7,8
+    tend:
+        var n,0
+        db n
+        var n,n+1
+        db n
+        var n,n+1
+        db n
+    LAST = n
+    `);
+    test("Constants", outp, new Uint8Array([
+        0x21, 0x0F, 0x10,   // LD HL,table+2*ENTRY_SIZE
+        0x3E, 0x02,         // LD A,COUNT
+        0x06, 0x02,         // LD B,LAST
+        0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08,
+        0x00, 0x01, 0x02,
+    ]));
+    testError("Constants_Redefined", HCAsm.AsmRaw(`
+        const X, 1
+    X = 2
+    `));
+    testError("Constants_LabelRedefined", HCAsm.AsmRaw(`
+    X:  nop
+        var X, 2
+    `));
+    testError("Constants_VarUsedBeforeDefinition", HCAsm.AsmRaw(`
+        db n
+        var n, 2
+    `));
+}
+
+function Macros() {
+    const outp = HCAsm.AsmRaw(`
+        org $100
+        macro store, reg, val
+    here:
+        ld reg,val
+        ld hl,here
+        endm
+        macro twice, v
+        store a, v
+        store a, v+1
+        endm
+        store b, $12
+        twice 3
+    `);
+    test("Macros", outp, new Uint8Array([
+        0x06, 0x12,         // LD B,0x12
+        0x21, 0x00, 0x01,   // LD HL,0x0100
+        0x3E, 0x03,         // LD A,0x03
+        0x21, 0x05, 0x01,   // LD HL,0x0105
+        0x3E, 0x04,         // LD A,0x04
+        0x21, 0x0A, 0x01,   // LD HL,0x010A
+    ]));
+    testError("Macros_ArgCount", HCAsm.AsmRaw(`
+        macro m, x, y
+        endm
+        m 1
+    `));
+    testError("Macros_NoENDM", HCAsm.AsmRaw(`
+        macro m
+        nop
+    `));
+    testError("Macros_NoMACRO", HCAsm.AsmRaw(`
+        nop
+        endm
+    `));
+    testError("Macros_Recursive", HCAsm.AsmRaw(`
+        macro m
+        m
+        endm
+        m
+    `));
+    testError("Macros_ErrorInExpansion", HCAsm.AsmRaw(`
+        macro m, v
+        ld a,v
+        endm
+        m 300
+    `));
+    testDiagnostic("Macros_NameAsOperand", diagnose(`macro foo\n  nop\nendm\n  ld a,foo`),
+        ErrorCode.UndefinedSymbol, 4, 8, 3);
+    testDiagnostic("Macros_NameInData", diagnose(`macro foo\n  nop\nendm\n  db 1,foo`),
+        ErrorCode.UndefinedSymbol, 4, 8, 3);
+}
+
+function Includes() {
+    const files = new MemoryFileResolver({
+        "src/main.s": `
+            org $100
+            include "lib/defs.s"
+            ld a,VALUE
+            include "data.s"
+        `,
+        "src/lib/defs.s": `
+            VALUE = $42
+            include "../inc/more.s"
+        `,
+        "src/inc/more.s": `
+            ld b,1
+        `,
+        "common/data.s": `
+            db 1,2
+        `,
+        "loop.s": `
+            include "loop.s"
+        `,
+    });
+    test("Includes", HCAsm.AsmFile("src/main.s", files, ["common"]), new Uint8Array([
+        0x06, 0x01,     // LD B,1
+        0x3E, 0x42,     // LD A,VALUE
+        0x01, 0x02,     // DB 1,2
+    ]));
+    testError("Includes_Recursive", HCAsm.AsmRaw(`
+        include "loop.s"
+    `, files));
+    testError("Includes_NotFound", HCAsm.AsmRaw(`
+        include "data.s"
+    `, files));
+}
+
+function Diagnostics() {
+    const tokens = new Tokenizer().Tokenize("loop:\n\tld a,'x'");
+    if ((tokens[0].line !== 1) || (tokens[0].col !== 1) || (tokens[0].len !== 4) ||
+        (tokens[2].kind !== TokenKind.EOL) || (tokens[2].line !== 1) || (tokens[2].col !== 6) ||
+        (tokens[3].line !== 2) || (tokens[3].col !== 2) || (tokens[3].len !== 2) ||
+        (tokens[6].col !== 7) || (tokens[6].len !== 3)) {
+        err("Diagnostics_TokenLocations: wrong token locations");
+    }
+    else {
+        ok("Diagnostics_TokenLocations: OK");
+    }
+    testDiagnostic("Diagnostics_Unterminated", diagnose(`nop\n  db "abc`), ErrorCode.UnterminatedLiteral, 2, 6, 4);
+    testDiagnostic("Diagnostics_BadChar", diagnose(`  ld a,@`), ErrorCode.UnexpectedCharacter, 1, 8, 1);
+    testDiagnostic("Diagnostics_Bracket", diagnose(`  ld a,(1+2 nop`), ErrorCode.ExpectedBracket, 1, 13, 3);
+    testDiagnostic("Diagnostics_Include", diagnose(`\n    include "x.s"`), ErrorCode.FileNotFound, 2, 5, 7);
+    testDiagnostic("Diagnostics_EndOfSource", diagnose(`nop\nld a,`), ErrorCode.InvalidOperand, 2, 6, 0);
+    testDiagnostic("Diagnostics_EndOfExpr", diagnose(`  ld a,(1+`), ErrorCode.SyntaxError, 1, 11, 0);
+    testDiagnostic("Diagnostics_Undefined", diagnose(`nop\n    ld a,foo`), ErrorCode.UndefinedSymbol, 2, 10, 3);
+    testDiagnostic("Diagnostics_Overflow", diagnose(`ld a,1+255`), ErrorCode.ValueOutOfRange, 1, 6, 5);
+    testDiagnostic("Diagnostics_Operand", diagnose(`  push sp`), ErrorCode.InvalidOperand, 1, 8, 2);
+    testDiagnostic("Diagnostics_Statement", diagnose(`  nop\n  ld (bc),b`), ErrorCode.InvalidOperand, 2, 11, 1);
+}
+
+function Formatter() {
+    const src = "nop\n\tld a,foo";
+    const diags = diagnose(src);
+    const gcc = new DiagnosticFormatter({ format: DiagnosticFormat.GCC, mainFile: "main.s" });
+    gcc.AddSource(null, src);
+    testString("Formatter_GCC", gcc.Format(diags), "main.s:2:7: error: undefined symbol: FOO [E406]");
+
+    const pretty = new DiagnosticFormatter({ mainFile: "main.s" });
+    testString("Formatter_NoSource", pretty.Format(diags), "main.s:2:7: error: undefined symbol: FOO [E406]");
+    pretty.AddSource(null, src);
+    testString("Formatter_Pretty", pretty.Format(diags),
+        "main.s:2:7: error: undefined symbol: FOO [E406]\n" +
+        "    \tld a,foo\n" +
+        "    \t     ^~~");
+
+    const color = new DiagnosticFormatter({ color: true });
+    testString("Formatter_Color", color.Format(diags),
+        "\x1b[1m<source>:2:7: \x1b[0m\x1b[31merror: \x1b[0m\x1b[1mundefined symbol: FOO [E406]\x1b[0m");
+
+    const files = new MemoryFileResolver({
+        "inc.s": "  ld a,bar\n",
+    });
+    const json = new DiagnosticFormatter({ format: DiagnosticFormat.JSON });
+    const objs = JSON.parse(json.Format(diags.concat(diagnose_file("inc.s", files))));
+    if ((objs.length !== 2) || (objs[0].severity !== "error") || (objs[0].code !== "E406") ||
+        (objs[0].file !== null) || (objs[0].line !== 2) || (objs[0].column !== 7) || (objs[0].length !== 3) ||
+        (objs[1].file !== "inc.s") || (objs[1].message !== "undefined symbol: BAR")) {
+        err(`Formatter_JSON: unexpected output ${JSON.stringify(objs)}`);
+    }
+    else {
+        ok("Formatter_JSON: OK");
+    }
+
+    const include = new DiagnosticFormatter({ resolver: files });
+    testString("Formatter_IncludeExcerpt", include.Format(diagnose_file("inc.s", files)),
+        "inc.s:1:8: error: undefined symbol: BAR [E406]\n" +
+        "      ld a,bar\n" +
+        "           ^~~");
+}
+
+function Result() {
+    // the structured API must not write to the console
+    const log = console.log;
+    let logged = false;
+    console.log = () => { logged = true; };
+    const res = HCAsm.Assemble(`
+        org $100
+    start:
+        ld a,value
+        jr start
+        const value, $12
+        org $200
+        db 1, 2
+        var v, 3
+    `);
+    const bad = HCAsm.Assemble(`
+        ld a,undefined
+    `);
+    const missing = HCAsm.AssembleFile("missing.s", new MemoryFileResolver({}));
+    console.log = log;
+    if (logged) {
+        err("Result_NoConsole: console output");
+    }
+    else {
+        ok("Result_NoConsole: OK");
+    }
+    if (res.HasErrors() || (res.segments.length !== 2)) {
+        err("Result_Segments: expected 2 segments and no errors");
+    }
+    else {
+        test("Result_Segment0", res.segments[0].bytes, new Uint8Array([ 0x3E, 0x12, 0x18, 0xFC ]));
+        test("Result_Segment1", res.segments[1].bytes, new Uint8Array([ 0x01, 0x02 ]));
+        if ((res.segments[0].addr !== 0x100) || (res.segments[1].addr !== 0x200)) {
+            err("Result_SegmentAddr: wrong segment addresses");
+        }
+        else {
+            ok("Result_SegmentAddr: OK");
+        }
+    }
+    const symbols = res.symbols.map((sym) => `${sym.name}=${hex16(sym.value)}:${SymbolKind[sym.kind]}`).join(" ");
+    testString("Result_Symbols", symbols, "START=0100:Label V=0003:Var VALUE=0012:Const");
+    const listing = res.listing.map((l) => `${l.line}:${hex16(l.addr)}:${l.bytes.map(hex8).join("")}`).join(" ");
+    testString("Result_Listing", listing, "4:0100:3E12 5:0102:18FC 8:0200:0102");
+    if ((bad.diagnostics.length !== 1) || (bad.diagnostics[0].code !== ErrorCode.UndefinedSymbol) || !bad.HasErrors()) {
+        err("Result_Diagnostics: expected an undefined symbol error");
+    }
+    else {
+        ok("Result_Diagnostics: OK");
+    }
+    if ((missing.diagnostics.length !== 1) || (missing.diagnostics[0].code !== ErrorCode.FileNotFound) ||
+        (missing.diagnostics[0].file !== "missing.s") || (missing.segments.length !== 0)) {
+        err("Result_FileNotFound: expected a file not found error");
+    }
+    else {
+        ok("Result_FileNotFound: OK");
+    }
+}
+
+function Recovery() {
+    const res = HCAsm.Assemble(`
+        macro m, x
+        ld a,x
+        endm
+        ld a,(1+
+        nop
+        ld b,foo
+        const c1, (2+
+        ld c,c1
+        ld (bc),b
+        inc
+        m 1,2
+        db "abc
+    done:
+        halt
+        m 3`);
+    const diags = res.diagnostics.map((diag) => `${diag.line}:${diag.code}`).sort().join(" ");
+    testString("Recovery_Diagnostics", diags, "10:E402 11:E402 12:E305 13:E102 5:E201 7:E406 8:E201");
+    test("Recovery_Output", res.Raw(), new Uint8Array([
+        0x00,                   // NOP
+        0x06, 0x00,             // LD B,foo (undefined)
+        0x0E, 0x00,             // LD C,c1 (c1 defined with a bad value)
+        0x76,                   // HALT
+        0x3E, 0x03,             // M 3
+    ]));
+    const symbols = res.symbols.map((sym) => `${sym.name}=${sym.value}`).join(" ");
+    testString("Recovery_Symbols", symbols, "C1=0 DONE=5");
+    const macro = HCAsm.Assemble(`
+        macro m, x, (1+
+        nop
+        endm
+        halt
+        m 2`);
+    testDiagnostic("Recovery_MacroHeader", macro.diagnostics, ErrorCode.SyntaxError, 2, 24, 1);
+    test("Recovery_MacroHeader", macro.Raw(), new Uint8Array([
+        0x76,                   // HALT
+        0x00,                   // M 2
+    ]));
+}
+
+function Statements() {
+    const outp = HCAsm.AsmRaw(`
+    start: nop
+    l1: l2: ld a,1
+        ret nz
+        db 1, 2
+    `);
+    test("Statements", outp, new Uint8Array([ 0x00, 0x3E, 0x01, 0xC0, 0x01, 0x02 ]));
+    testDiagnostic("Statements_NOP", diagnose(`  nop 5`), ErrorCode.UnexpectedOperand, 1, 7, 1);
+    testDiagnostic("Statements_LD", diagnose(`  ld a,1 b`), ErrorCode.UnexpectedOperand, 1, 10, 1);
+    testDiagnostic("Statements_RET", diagnose(`  ret nz,5`), ErrorCode.UnexpectedOperand, 1, 9, 1);
+    testDiagnostic("Statements_DB", diagnose(`  db 1,2 3`), ErrorCode.UnexpectedOperand, 1, 10, 1);
+    testDiagnostic("Statements_EQU", diagnose(`x equ 1 2`), ErrorCode.UnexpectedOperand, 1, 9, 1);
+    testDiagnostic("Statements_6502", diagnose(`  m6502\n  lda ($10),y,x`), ErrorCode.UnexpectedOperand, 2, 14, 1);
+    testDiagnostic("Statements_Macro", diagnose(`macro m, x y\nendm`), ErrorCode.UnexpectedOperand, 1, 12, 1);
+    testDiagnostic("Statements_ENDM", diagnose(`macro m\nendm nop`), ErrorCode.UnexpectedOperand, 2, 6, 3);
+    testDiagnostic("Statements_MacroCall", diagnose(`macro m, x\nnop\nendm\nm 1 2`),
+        ErrorCode.UnexpectedOperand, 4, 5, 1);
+    const files = new MemoryFileResolver({ "a.s": "nop" });
+    testDiagnostic("Statements_Include", HCAsm.Assemble(`include "a.s" 1`, files).diagnostics,
+        ErrorCode.UnexpectedOperand, 1, 15, 1);
+    // the rest of the line is skipped, the next line is assembled
+    const res = HCAsm.Assemble(`
+        nop 5 6
+        halt
+    `);
+    test("Statements_Recovery", res.Raw(), new Uint8Array([ 0x76 ]));
+}
+
+function Incbin() {
+    const files = new MemoryFileResolver({
+        "gfx/sprite.bin": new Uint8Array([ 0x10, 0x11, 0x12, 0x13, 0x14, 0x15 ]),
+        "gfx/sprite.s": `
+            incbin "sprite.bin", 2, 3
+        `,
+    });
+    const outp = HCAsm.AsmRaw(`
+        org $8000
+        incbin "gfx/sprite.bin"
+        incbin "gfx/sprite.bin", 4
+        include "gfx/sprite.s"
+    after:
+        dw after
+    `, files);
+    test("Incbin", outp, new Uint8Array([
+        0x10, 0x11, 0x12, 0x13, 0x14, 0x15,
+        0x14, 0x15,
+        0x12, 0x13, 0x14,
+        0x0B, 0x80,
+    ]));
+    testError("Incbin_Range", HCAsm.AsmRaw(`
+        incbin "gfx/sprite.bin", 4, 3
+    `, files));
+    testError("Incbin_NotFound", HCAsm.AsmRaw(`
+        incbin "sprite.bin"
+    `, files));
+    const bad = new MemoryFileResolver({
+        "gfx/sprite.bin": new Uint8Array([ 0x10, 0x11 ]),
+        "gfx/offset.s": `incbin "sprite.bin", a`,
+        "gfx/length.s": `incbin "sprite.bin", 0, "x"`,
+    });
+    testDiagnostic("Incbin_InvalidOffset", diagnose_file("gfx/offset.s", bad), ErrorCode.InvalidOperand, 1, 22, 1);
+    testDiagnostic("Incbin_InvalidLength", diagnose_file("gfx/length.s", bad), ErrorCode.InvalidOperand, 1, 25, 3);
+}
+
 LD_r_sn();
 LD_r_iHL();
 LD_r_iIXIY();
@@ -1068,6 +2643,42 @@ XOR_rn();
 OR_XOR_iHLIXIY();
 AND_rn();
 AND_iHLIXIY();
+ALU_A_x();
+ALU16();
+JP_JR();
+CALL_RET_RST();
+PUSH_POP();
+EX();
+INC_DEC();
+ROT_SHIFT();
+BIT_SET_RES();
+IN_OUT_IM();
+Undocumented();
+M6502_AddrModes();
+M6502_Implied();
+M6502_ALU();
+M6502_Branches();
+M65C02();
+M6510_Illegal();
+I8080();
+SM83();
+CPU_Switch();
+Labels();
+Labels_Errors();
+Expressions();
+LoHi();
+DB_DW();
+Strings();
+Charsets();
+Constants();
+Macros();
+Includes();
+Incbin();
+Diagnostics();
+Formatter();
+Result();
+Recovery();
+Statements();
 
 if (NumErrors === 0) {
     console.log(chalk.green("\n\nALL TESTS OK!"));